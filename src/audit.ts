@@ -0,0 +1,54 @@
+import { execFileSync } from 'child_process';
+import { MigrationHistoryRecord } from './types';
+import * as os from 'os';
+import * as path from 'path';
+
+// Environment variables CI systems set to the commit being built
+const GIT_COMMIT_ENV_VARS = ['GIT_COMMIT', 'GITHUB_SHA', 'CI_COMMIT_SHA', 'BITBUCKET_COMMIT', 'CIRCLE_SHA1'];
+
+export type AuditMetadata = Pick<MigrationHistoryRecord, 'clicksuite_version' | 'os_user' | 'host' | 'git_commit'>;
+
+function clicksuiteVersion(): string {
+  try {
+    // package.json sits next to both src/ and dist/
+    return require(path.join(__dirname, '..', 'package.json')).version || '';
+  } catch (error) {
+    return '';
+  }
+}
+
+function osUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch (error) {
+    // userInfo() throws for users without a passwd entry, e.g. in some containers
+    return process.env.USER || process.env.USERNAME || '';
+  }
+}
+
+function gitCommit(cwd: string): string {
+  for (const name of GIT_COMMIT_ENV_VARS) {
+    if (process.env[name]) {
+      return process.env[name]!;
+    }
+  }
+  try {
+    return execFileSync('git', ['rev-parse', 'HEAD'], { cwd, stdio: ['ignore', 'pipe', 'ignore'], timeout: 5000 }).toString().trim();
+  } catch (error) {
+    return '';
+  }
+}
+
+/**
+ * Describe who is running clicksuite and from which code, for the migration history
+ * @param migrationsDir - The migrations directory, whose git checkout provides the commit
+ * @returns The clicksuite version, OS user, hostname and git commit (empty when unknown)
+ */
+export function getAuditMetadata(migrationsDir: string): AuditMetadata {
+  return {
+    clicksuite_version: clicksuiteVersion(),
+    os_user: osUser(),
+    host: os.hostname(),
+    git_commit: gitCommit(migrationsDir),
+  };
+}
@@ -8,11 +8,36 @@ import * as path from 'path';
 import chalk from 'chalk';
 import { Runner } from './runner';
 import { getContext } from './index';
+import { ClicksuiteError } from './errors';
+import { presentDown, presentGenerated, presentHistory, presentRedo, presentReset, presentSchemaDiff, presentSchemaLoad, presentSquash, presentStatus, presentUnlock, presentUp } from './presenter';
+import { Context, OutputFormat, UpResult } from './types';
+import { redactContext, redactSecrets } from './config';
+import { EXIT_CODES, isMachineOutput, redirectConsoleToStderr, serializeStatus, writeError, writeResult } from './output';
 
 // Load environment variables from .env file for CLI usage
 dotenv.config();
 
+// Exit with the given code. PENDING and NOTHING_TO_DO are only used in JSON/NDJSON output
+// modes, so existing text-mode scripts that treat any non-zero exit as a failure keep working.
+function exitWith(context: Context, code: number) {
+  if (code === EXIT_CODES.SUCCESS || (code !== EXIT_CODES.FAILURE && !isMachineOutput(context))) {
+    return;
+  }
+  process.exit(code);
+}
+
+function upExitCode(result: UpResult): number {
+  if (result.dryRun) {
+    return result.planned.length > 0 ? EXIT_CODES.PENDING : EXIT_CODES.NOTHING_TO_DO;
+  }
+  return result.applied.length > 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.NOTHING_TO_DO;
+}
+
 export function createCli(): Argv {
+  // Output format and command of this run, for errors that reach .fail() before the command resolved its
+  // context, e.g. a missing CLICKHOUSE_URL or an unknown --env
+  let invocation: { output?: OutputFormat; command: string; environment?: string } = { command: '' };
+
   return yargs(hideBin(process.argv))
   .option('non-interactive', {
     alias: 'y',
@@ -20,14 +45,55 @@ export function createCli(): Argv {
     description: 'Run in non-interactive mode (confirming actions automatically)',
     default: false,
   })
+  .option('env', {
+    type: 'string',
+    description: 'Environment profile to use from clicksuite.config (overrides CLICKSUITE_ENVIRONMENT)',
+  })
   .option('verbose', {
     type: 'boolean',
     description: 'Show detailed SQL logs and verbose output',
     default: false,
   })
+  .option('lock-timeout', {
+    type: 'number',
+    description: 'Seconds to wait for the migration lock held by another process (default: 60)',
+  })
+  .option('inject-on-cluster', {
+    type: 'boolean',
+    description: 'Add ON CLUSTER <cluster> to CREATE/ALTER/DROP/RENAME/TRUNCATE statements that lack it',
+  })
+  .option('verify-replicas', {
+    type: 'boolean',
+    description: 'Compare the objects each migration worked on across all replicas of the cluster before recording it',
+  })
+  .option('mutation-timeout', {
+    type: 'number',
+    description: 'Seconds to wait for the mutations a migration starts (ALTER TABLE ... UPDATE/DELETE) to finish (default: 3600)',
+  })
+  .option('request-timeout', {
+    type: 'number',
+    description: 'Seconds before a request to ClickHouse is aborted; raise it for long-running DDL (default: 30)',
+  })
+  .option('slow-threshold', {
+    type: 'number',
+    description: 'Seconds after which a statement is highlighted as slow in the timing summary (default: 10)',
+  })
+  .option('output', {
+    choices: ['text', 'json', 'ndjson'] as const,
+    description: 'Output format: human-readable text, one JSON document, or JSON records streamed line by line',
+    default: 'text' as const,
+  })
+  .middleware((argv) => {
+    invocation = { output: argv.output, command: String(argv._[0]), environment: argv.env || process.env.CLICKSUITE_ENVIRONMENT };
+    // Keep stdout for JSON; progress messages still go to stderr
+    if (argv.output === 'json' || argv.output === 'ndjson') {
+      redirectConsoleToStderr();
+    }
+  })
   .command(
     'init',
     'Initialize Clicksuite for the current project',
+    {},
     async (argv) => {
       const context = getContext(argv);
       try {
@@ -38,9 +104,11 @@ export function createCli(): Argv {
         
         const runner = new Runner(context);
         await runner.init();
+        writeResult(context, 'init', { migrationsDir: context.migrationsDir });
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Initialization failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'init', error);
+        console.error(chalk.bold.red('❌ Initialization failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -49,20 +117,49 @@ export function createCli(): Argv {
     'generate <name>',
     'Generate a new migration file',
     (yargsInstance) => {
-      return yargsInstance.positional('name', {
-        describe: 'Name of the migration (e.g., \'create_users_table\')',
-        type: 'string',
-        demandOption: true,
-      });
+      return yargsInstance
+        .positional('name', {
+          describe: 'Name of the migration (e.g., \'create_users_table\')',
+          type: 'string',
+          demandOption: true,
+        })
+        .option('format', {
+          describe: 'Migration file format: YAML with per-environment sections, plain SQL, or a TypeScript module',
+          choices: ['yaml', 'sql', 'ts'] as const,
+          default: 'yaml' as const,
+        });
     },
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.generate(argv.name as string);
+        const filePath = await runner.generate(argv.name as string, argv.format as 'yaml' | 'sql' | 'ts');
+        presentGenerated(filePath);
+        writeResult(context, 'generate', { filePath });
+      } catch (error: any) {
+        writeError(context, 'generate', error);
+        console.error(chalk.bold.red('❌ Migration generation failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'config:show',
+    'Print the resolved configuration with secrets redacted',
+    {},
+    async (argv) => {
+      const context = getContext(argv);
+      try {
+        if (context.output === 'text') {
+          console.log(JSON.stringify(redactContext(context), null, 2));
+        } else {
+          writeResult(context, 'config:show', { config: redactContext(context) });
+        }
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Migration generation failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'config:show', error);
+        console.error(chalk.bold.red('❌ Failed to show configuration:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -70,14 +167,68 @@ export function createCli(): Argv {
   .command(
     'migrate:status',
     'Show the status of all migrations',
+    {},
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.status();
+        const migrations = await runner.status();
+        presentStatus(context, migrations);
+        const pending = migrations.filter(m => m.state === 'PENDING' || m.state === 'PARTIAL').length;
+        writeResult(context, 'migrate:status', { pending, migrations: migrations.map(serializeStatus) });
+        exitWith(context, pending > 0 ? EXIT_CODES.PENDING : EXIT_CODES.SUCCESS);
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Failed to get migration status:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'migrate:status', error);
+        console.error(chalk.bold.red('❌ Failed to get migration status:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'migrate:history [migrationVersion]',
+    'Show who applied or rolled back migrations, when, and with what outcome',
+    (yargsInstance) => {
+      return yargsInstance
+        .positional('migrationVersion', {
+          describe: 'Optional: Only show the history of this migration version',
+          type: 'string',
+        });
+    },
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const history = await runner.history(argv.migrationVersion as string | undefined);
+        presentHistory(context, history);
+        writeResult(context, 'migrate:history', { history });
+      } catch (error: any) {
+        writeError(context, 'migrate:history', error);
+        console.error(chalk.bold.red('❌ Failed to get migration history:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'migrate:verify',
+    'Check that applied migrations still match their local files',
+    {},
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const mismatches = await runner.verify();
+        if (mismatches.length > 0) {
+          writeError(context, 'migrate:verify', new ClicksuiteError('DRIFT_DETECTED', `${mismatches.length} applied migration(s) were modified after being applied.`), { mismatches });
+          process.exit(EXIT_CODES.FAILURE);
+        } else {
+          writeResult(context, 'migrate:verify', { mismatches });
+        }
+      } catch (error: any) {
+        writeError(context, 'migrate:verify', error);
+        console.error(chalk.bold.red('❌ Migration verification failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -85,14 +236,34 @@ export function createCli(): Argv {
   .command(
     'migrate',
     'Run all pending migrations (equivalent to migrate:up)',
+    (yargsInstance) => {
+      return yargsInstance
+        .option('fail-on-drift', {
+          describe: 'Refuse to migrate if applied migrations were modified after being applied',
+          type: 'boolean',
+        })
+        .option('out-of-order', {
+          describe: 'What to do with pending migrations older than the latest applied one (default: warn)',
+          choices: ['error', 'warn', 'allow'] as const,
+        })
+        .option('restart-partial', {
+          describe: 'Re-run partially applied migrations from their first statement instead of resuming',
+          type: 'boolean',
+          default: false,
+        });
+    },
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.migrate();
+        const result = await runner.migrate();
+        presentUp(context, result);
+        writeResult(context, 'migrate', { ...result });
+        exitWith(context, upExitCode(result));
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Migration run failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'migrate', error);
+        console.error(chalk.bold.red('❌ Migration run failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -106,20 +277,41 @@ export function createCli(): Argv {
           describe: 'Optional: Target migration version to run up to (inclusive).',
           type: 'string',
         })
+        .option('only', {
+          describe: 'Apply only this pending migration version, e.g. one that landed out of order',
+          type: 'string',
+        })
         .option('dry-run', {
           describe: 'Preview migrations without executing them',
           type: 'boolean',
           default: false,
+        })
+        .option('fail-on-drift', {
+          describe: 'Refuse to migrate if applied migrations were modified after being applied',
+          type: 'boolean',
+        })
+        .option('out-of-order', {
+          describe: 'What to do with pending migrations older than the latest applied one (default: warn)',
+          choices: ['error', 'warn', 'allow'] as const,
+        })
+        .option('restart-partial', {
+          describe: 'Re-run partially applied migrations from their first statement instead of resuming',
+          type: 'boolean',
+          default: false,
         });
     },
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.up(argv.migrationVersion as string | undefined);
+        const result = await runner.up(argv.migrationVersion as string | undefined, { only: argv.only as string | undefined });
+        presentUp(context, result);
+        writeResult(context, 'migrate:up', { ...result });
+        exitWith(context, upExitCode(result));
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Migrate UP failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'migrate:up', error);
+        console.error(chalk.bold.red('❌ Migrate UP failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -133,6 +325,14 @@ export function createCli(): Argv {
           describe: 'Optional: The migration version to roll back (e.g., \'20230101120000\'). If omitted, rolls back the last applied migration.',
           type: 'string',
         })
+        .option('steps', {
+          describe: 'Roll back the last N applied migrations',
+          type: 'number',
+        })
+        .option('only', {
+          describe: 'Roll back only this migration version, leaving later migrations applied',
+          type: 'string',
+        })
         .option('dry-run', {
           describe: 'Preview rollbacks without executing them',
           type: 'boolean',
@@ -143,10 +343,57 @@ export function createCli(): Argv {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.down(argv.migrationVersion as string | undefined);
+        const result = await runner.down(argv.migrationVersion as string | undefined, {
+          steps: argv.steps as number | undefined,
+          only: argv.only as string | undefined,
+        });
+        presentDown(context, result);
+        writeResult(context, 'migrate:down', { ...result });
+        if (result.dryRun) {
+          exitWith(context, result.planned.length > 0 ? EXIT_CODES.PENDING : EXIT_CODES.NOTHING_TO_DO);
+        } else if (!result.cancelled) {
+          exitWith(context, result.rolledBack.length > 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.NOTHING_TO_DO);
+        }
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Migrate DOWN failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'migrate:down', error);
+        console.error(chalk.bold.red('❌ Migrate DOWN failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'migrate:redo',
+    'Roll back the last applied migration(s) and apply them again',
+    (yargsInstance) => {
+      return yargsInstance
+        .option('steps', {
+          describe: 'Number of migrations to redo',
+          type: 'number',
+          default: 1,
+        })
+        .option('dry-run', {
+          describe: 'Preview the rollback and re-apply without executing them',
+          type: 'boolean',
+          default: false,
+        });
+    },
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const result = await runner.redo(argv.steps as number);
+        presentRedo(context, result);
+        writeResult(context, 'migrate:redo', { ...result });
+        if (result.dryRun) {
+          exitWith(context, result.down.planned.length > 0 ? EXIT_CODES.PENDING : EXIT_CODES.NOTHING_TO_DO);
+        } else if (!result.cancelled) {
+          exitWith(context, result.up.applied.length > 0 ? EXIT_CODES.SUCCESS : EXIT_CODES.NOTHING_TO_DO);
+        }
+      } catch (error: any) {
+        writeError(context, 'migrate:redo', error);
+        console.error(chalk.bold.red('❌ Migrate REDO failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -154,14 +401,67 @@ export function createCli(): Argv {
   .command(
     'migrate:reset',
     'Roll back all applied migrations and clear the migrations table (requires confirmation)',
+    {},
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const result = await runner.reset();
+        presentReset(context, result);
+        writeResult(context, 'migrate:reset', { ...result });
+      } catch (error: any) {
+        writeError(context, 'migrate:reset', error);
+        console.error(chalk.bold.red('❌ Migration reset failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'migrate:squash',
+    'Replace local migrations with a baseline generated from the live schema and archive their files',
+    (yargsInstance) => {
+      return yargsInstance
+        .option('until', {
+          describe: 'Last migration version to squash (default: every local migration)',
+          type: 'string',
+        })
+        .option('dry-run', {
+          describe: 'Show what would be squashed and archived without changing any file',
+          type: 'boolean',
+          default: false,
+        });
+    },
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const result = await runner.squash(argv.until as string | undefined);
+        presentSquash(context, result);
+        writeResult(context, 'migrate:squash', { ...result });
+      } catch (error: any) {
+        writeError(context, 'migrate:squash', error);
+        console.error(chalk.bold.red('❌ Migration squash failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    'migrate:unlock',
+    'Release the migration lock left behind by a crashed or interrupted process',
+    {},
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.reset();
+        const result = await runner.unlock();
+        presentUnlock(result);
+        writeResult(context, 'migrate:unlock', { ...result });
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Migration reset failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'migrate:unlock', error);
+        console.error(chalk.bold.red('❌ Releasing the migration lock failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -169,14 +469,54 @@ export function createCli(): Argv {
   .command(
     'schema:load',
     'Load all local migrations into the database as APPLIED without running their SQL scripts',
+    (yargsInstance) => {
+      return yargsInstance
+        .option('from-file', {
+          describe: 'First create the databases, tables, materialized views and dictionaries of schema.sql, to bootstrap a fresh database',
+          type: 'boolean',
+          default: false,
+        });
+    },
     async (argv) => {
       const context = getContext(argv);
       const runner = new Runner(context);
       try {
-        await runner.schemaLoad();
+        const result = await runner.schemaLoad(argv.fromFile as boolean);
+        presentSchemaLoad(context, result);
+        if (result.failed.length > 0) {
+          writeError(context, 'schema:load', new ClicksuiteError('SCHEMA_LOAD_FAILED', `${result.failed.length} migration(s) could not be marked as applied: ${result.failed.join(', ')}.`), { ...result });
+          process.exit(EXIT_CODES.FAILURE);
+        } else {
+          writeResult(context, 'schema:load', { ...result });
+        }
       } catch (error: any) {
-        console.error(chalk.bold.red('❌ Schema loading failed:'), error.message);
-        if (error.stack && !context.nonInteractive) console.error(chalk.gray(error.stack));
+        writeError(context, 'schema:load', error);
+        console.error(chalk.bold.red('❌ Schema loading failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
+        process.exit(1);
+      }
+    }
+  )
+  .command(
+    ['schema:diff', 'schema:check'],
+    'Compare schema.sql with the live database schema and exit non-zero when they differ',
+    {},
+    async (argv) => {
+      const context = getContext(argv);
+      const runner = new Runner(context);
+      try {
+        const result = await runner.schemaDiff();
+        presentSchemaDiff(context, result);
+        if (result.differences.length > 0) {
+          writeError(context, 'schema:diff', new ClicksuiteError('SCHEMA_DRIFT', `The database schema differs from schema.sql in ${result.differences.length} object(s).`), { ...result });
+          process.exit(EXIT_CODES.FAILURE);
+        } else {
+          writeResult(context, 'schema:diff', { ...result });
+        }
+      } catch (error: any) {
+        writeError(context, 'schema:diff', error);
+        console.error(chalk.bold.red('❌ Schema comparison failed:'), redactSecrets(error.message, context));
+        if (error.stack && !context.nonInteractive) console.error(chalk.gray(redactSecrets(error.stack, context)));
         process.exit(1);
       }
     }
@@ -187,6 +527,10 @@ export function createCli(): Argv {
   .alias('v', 'version')
   .epilogue(chalk.gray('For more information, find the documentation at https://github.com/GamebeastGG/clicksuite'))
   .fail((msg, err, yargsInstance) => {
+    if (err && invocation.output) {
+      // No context was resolved, so there are no secrets to redact
+      writeError({ output: invocation.output, environment: invocation.environment, url: '' }, invocation.command, err);
+    }
     if (err && err.message && !err.message.startsWith('⚠️')) {
       console.error(chalk.bold.red('❌ Error:'), err.message);
       try {
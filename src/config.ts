@@ -0,0 +1,196 @@
+import { ClicksuiteConfig, Context, EnvironmentConfig } from './types';
+import * as fsSync from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+
+// Searched for in this order in every directory from the CWD upwards
+export const CONFIG_FILE_NAMES = [
+  'clicksuite.config.json',
+  'clicksuite.config.yml',
+  'clicksuite.config.yaml',
+  'clicksuite.config.ts',
+  'clicksuite.config.js',
+];
+
+const REDACTED = '****';
+
+/**
+ * Require a .js or .ts module. TypeScript modules are loaded through ts-node unless
+ * a TypeScript loader is already registered.
+ * @param filePath - Absolute path to the module
+ * @returns The module's exports
+ */
+export function requireModule(filePath: string): any {
+  if (filePath.endsWith('.ts') && !require.extensions?.['.ts']) {
+    try {
+      require('ts-node/register/transpile-only');
+    } catch (_) {
+      throw new Error(`Loading ${path.basename(filePath)} needs ts-node (npm install --save-dev ts-node). Alternatively, compile it to .js.`);
+    }
+  }
+  return require(filePath);
+}
+
+/**
+ * Find the nearest clicksuite config file
+ * @param startDir - Directory to start searching from; parent directories are searched up to the filesystem root
+ * @returns The absolute path of the config file, or undefined if there is none
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = path.resolve(startDir);
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, fileName);
+      if (fsSync.existsSync(candidate) && fsSync.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load and validate a clicksuite config file
+ * @param filePath - Absolute path to a clicksuite.config.{json,yml,yaml,ts,js} file
+ * @returns The parsed config
+ */
+export function loadConfigFile(filePath: string): ClicksuiteConfig {
+  let config: any;
+  try {
+    if (filePath.endsWith('.json')) {
+      config = JSON.parse(fsSync.readFileSync(filePath, 'utf-8'));
+    } else if (filePath.endsWith('.yml') || filePath.endsWith('.yaml')) {
+      config = yaml.load(fsSync.readFileSync(filePath, 'utf-8'));
+    } else {
+      const loaded = requireModule(filePath);
+      config = loaded && loaded.default !== undefined ? loaded.default : loaded;
+    }
+  } catch (error: any) {
+    throw new Error(`Failed to load config file ${filePath}: ${error.message}`);
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid config file ${filePath}: expected an object.`);
+  }
+  if (config.environments !== undefined && (typeof config.environments !== 'object' || Array.isArray(config.environments))) {
+    throw new Error(`Invalid config file ${filePath}: 'environments' must map environment names to profiles.`);
+  }
+  return config as ClicksuiteConfig;
+}
+
+/**
+ * Resolve the profile for an environment: top-level options in the config apply to every
+ * environment and are overridden by the environment's own profile, if it has one.
+ * @param config - The parsed config
+ * @param environment - The environment name
+ * @returns The merged profile
+ */
+export function resolveEnvironmentConfig(config: ClicksuiteConfig, environment: string): EnvironmentConfig {
+  const { environments, defaultEnvironment, ...shared } = config;
+  const profile = environments?.[environment] || {};
+  return {
+    ...shared,
+    ...profile,
+    settings: { ...(shared.settings || {}), ...(profile.settings || {}) },
+    ...(shared.schema || profile.schema ? { schema: { ...shared.schema, ...profile.schema } } : {}),
+    ...(shared.connection || profile.connection ? { connection: { ...shared.connection, ...profile.connection } } : {}),
+  };
+}
+
+/**
+ * Hide the password in a ClickHouse URL
+ * @param url - The URL to redact
+ * @returns The URL with its password replaced
+ */
+export function redactUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    if (urlObj.password) {
+      urlObj.password = REDACTED;
+    }
+    if (urlObj.searchParams.has('password')) {
+      urlObj.searchParams.set('password', REDACTED);
+    }
+    return urlObj.toString();
+  } catch (_) {
+    return REDACTED;
+  }
+}
+
+/**
+ * Copy a context with its secrets redacted, for display
+ * @param context - The context to redact
+ * @returns The redacted copy
+ */
+export function redactContext(context: Context): Context {
+  const redacted: Context = { ...context, url: redactUrl(context.url) };
+  if (context.password !== undefined) {
+    redacted.password = REDACTED;
+  }
+  if (context.connection?.httpHeaders) {
+    const httpHeaders = Object.fromEntries(Object.keys(context.connection.httpHeaders).map(name => [name, REDACTED]));
+    redacted.connection = { ...context.connection, httpHeaders };
+  }
+  return redacted;
+}
+
+// Shorter secrets are not replaced in text, since replacing them would garble unrelated output
+const MIN_SECRET_LENGTH = 4;
+// HTTP headers whose values are credentials
+const AUTH_HEADER_REGEX = /^(authorization|proxy-authorization|x-clickhouse-key)$/i;
+// Secrets only known once resolved, e.g. the passwords returned by a credential provider
+const registeredSecrets = new WeakMap<object, Set<string>>();
+
+type SecretSource = Pick<Context, 'url' | 'password' | 'connection'>;
+
+/**
+ * Register a secret of a context that is only known once resolved, so it is redacted from then on
+ * @param context - The context the secret belongs to
+ * @param secret - The secret, e.g. a password returned by the credential provider
+ */
+export function registerSecret(context: SecretSource, secret: string) {
+  const secrets = registeredSecrets.get(context) || new Set<string>();
+  secrets.add(secret);
+  registeredSecrets.set(context, secrets);
+}
+
+/**
+ * Collect the secrets of a context: the password, the password in the URL, the values of
+ * authentication headers and registered secrets. Secrets shorter than MIN_SECRET_LENGTH are left out.
+ * @param context - The context
+ * @returns The secrets, longest first, in the forms they may be printed in
+ */
+export function getSecrets(context: SecretSource): string[] {
+  const secrets = [context.password, ...(registeredSecrets.get(context) || [])];
+  for (const [name, value] of Object.entries(context.connection?.httpHeaders || {})) {
+    if (AUTH_HEADER_REGEX.test(name)) {
+      // The credentials of an 'Authorization: <scheme> <credentials>' header may be printed on their own
+      secrets.push(value, value.match(/^\S+\s+(\S+)$/)?.[1]);
+    }
+  }
+  try {
+    const urlObj = new URL(context.url);
+    secrets.push(urlObj.password, urlObj.searchParams.get('password') || undefined);
+    if (urlObj.password) {
+      secrets.push(decodeURIComponent(urlObj.password));
+    }
+  } catch (_) {
+    // An unparseable URL has no password to find
+  }
+  const unique = new Set(secrets.filter((secret): secret is string => !!secret && secret.length >= MIN_SECRET_LENGTH));
+  return [...unique].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace the secrets of a context in a text
+ * @param text - The text to redact, e.g. an error message
+ * @param context - The context whose secrets are replaced
+ * @returns The redacted text
+ */
+export function redactSecrets(text: string, context: SecretSource): string {
+  return getSecrets(context).reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+}
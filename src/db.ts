@@ -1,17 +1,139 @@
-import { createClient, ClickHouseClient } from '@clickhouse/client';
-import { Context } from './types';
+import { createClient, ClickHouseClient, ClickHouseClientConfigOptions, CommandParams, InsertParams, QueryParams } from '@clickhouse/client';
+import { ConnectionOptions, Context, CredentialProvider, DdlTarget, ExecuteMigrationOptions, LockRecord, Logger, MigrationHistoryRecord, MigrationRecord, MigrationStepRecord, MutationTarget, ReplicaTableRecord, StatementTiming } from './types';
+import { registerSecret } from './config';
+import { getLogger } from './logger';
+import { ClicksuiteError } from './errors';
+import { isInSchemaScope, stabilizeStatement } from './schema';
+import { addOnCluster, getMutationTarget, isDdlWithoutOnCluster, splitStatements } from './sql';
+import * as fsSync from 'fs';
+import { Readable } from 'stream';
 import chalk from 'chalk';
 
+// Columns added to __clicksuite_migrations after its first release, with the value read in their place
+// until the table is upgraded. Tables created by older versions are upgraded in place by
+// upgradeMigrationsTable() when clicksuite initializes or writes to them, never when it only reads them.
+const MIGRATIONS_TABLE_UPGRADE_COLUMNS: Array<[string, string, string]> = [
+  ['checksum', `String NOT NULL DEFAULT ''`, `''`],
+];
+
+const DEFAULT_MUTATION_TIMEOUT_SECONDS = 3600;
+const MUTATION_POLL_INTERVAL_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function readPemFile(filePath: string, description: string): Buffer {
+  try {
+    return fsSync.readFileSync(filePath);
+  } catch (error: any) {
+    throw new Error(`Could not read the ${description} ${filePath}: ${error.message}`);
+  }
+}
+
+// Translate the connection options of a context into @clickhouse/client options, reading the certificate files
+function toClientOptions(connection: ConnectionOptions = {}): ClickHouseClientConfigOptions {
+  const options: ClickHouseClientConfigOptions = {};
+  if (!!connection.clientCert !== !!connection.clientKey) {
+    throw new Error('Mutual TLS needs both clientCert and clientKey.');
+  }
+  if (connection.clientCert && !connection.caCert) {
+    throw new Error('Mutual TLS needs caCert as well as clientCert and clientKey.');
+  }
+  if (connection.caCert) {
+    const ca_cert = readPemFile(connection.caCert, 'CA certificate');
+    options.tls = connection.clientCert
+      ? { ca_cert, cert: readPemFile(connection.clientCert, 'client certificate'), key: readPemFile(connection.clientKey!, 'client key') }
+      : { ca_cert };
+  }
+  if (connection.requestTimeout !== undefined) {
+    options.request_timeout = connection.requestTimeout * 1000;
+  }
+  if (connection.compression) {
+    options.compression = connection.compression;
+  }
+  if (connection.keepAlive) {
+    options.keep_alive = connection.keepAlive.idleSocketTtl !== undefined
+      ? { enabled: connection.keepAlive.enabled, idle_socket_ttl: connection.keepAlive.idleSocketTtl }
+      : { enabled: connection.keepAlive.enabled };
+  }
+  if (connection.httpHeaders) {
+    options.http_headers = connection.httpHeaders;
+  }
+  if (connection.role) {
+    options.role = connection.role;
+  }
+  return options;
+}
+
+// Pass credentials set apart from the URL to the client, removing those of the URL that would take precedence over them
+function toAuthOptions(context: Context): ClickHouseClientConfigOptions {
+  if (context.username === undefined && context.password === undefined) {
+    return { url: context.url };
+  }
+  const urlObj = new URL(context.url);
+  if (context.username !== undefined) {
+    // The password in the URL belongs to the user in the URL
+    urlObj.username = '';
+    urlObj.password = '';
+  }
+  if (context.password !== undefined) {
+    urlObj.password = '';
+  }
+  return {
+    url: urlObj.toString(),
+    ...(context.username !== undefined ? { username: context.username } : {}),
+    ...(context.password !== undefined ? { password: context.password } : {}),
+  };
+}
+
+// Ask the provider for credentials before every query, command and insert, so they can be rotated while a migration runs.
+// Each password is registered as a secret of the context, so it is redacted from what clicksuite logs.
+function withCredentialProvider(client: ClickHouseClient, context: Context, provider: CredentialProvider): ClickHouseClient {
+  const auth = async () => {
+    const { username, password } = await provider();
+    registerSecret(context, password);
+    return { username, password };
+  };
+  return Object.assign(Object.create(client), {
+    query: async (params: QueryParams) => client.query({ ...params, auth: await auth() }),
+    command: async (params: CommandParams) => client.command({ ...params, auth: await auth() }),
+    insert: async <T>(params: InsertParams<Readable, T>) => client.insert({ ...params, auth: await auth() }),
+    ping: () => client.ping(),
+    close: () => client.close(),
+  });
+}
+
+// A row of system.mutations, or of system.distributed_ddl_queue on a cluster, that has not finished yet
+interface PendingMutation {
+  host: string;
+  id: string;
+  parts_to_do: number;
+  fail_reason: string;
+}
+
 export class Db {
   private client: ClickHouseClient;
   private context: Context;
+  private logger: Logger;
+  private migrationsTableUpgraded = false;
+  private migrationsTableColumns?: Set<string>;
+  private migrationStepsTableReady = false;
+  private migrationHistoryTableReady = false;
 
   constructor(context: Context) {
-    this.client = createClient({
-      url: context.url,
+    const client = createClient({
+      ...toAuthOptions(context),
+      ...toClientOptions(context.connection),
     });
+    this.client = context.credentialProvider ? withCredentialProvider(client, context, context.credentialProvider) : client;
 
     this.context = context;
+    this.logger = getLogger(context);
   }
 
   async ping() {
@@ -27,15 +149,13 @@ export class Db {
     if (migrationsDatabase !== 'default') {
       const createDbQuery = `CREATE DATABASE IF NOT EXISTS ${migrationsDatabase} ${clusterClause}`;
       try {
-        if (this.context.verbose) {
-          console.log(chalk.gray('🔍 Ensuring migrations database exists:'), chalk.gray(createDbQuery.replace(/\n\s*/g, ' ').trim()));
-        }
+        this.logger.debug(chalk.gray('🔍 Ensuring migrations database exists:'), chalk.gray(createDbQuery.replace(/\n\s*/g, ' ').trim()));
         await this.client.command({
           query: createDbQuery,
           clickhouse_settings: { wait_end_of_query: 1 },
         });
       } catch (error) {
-        console.error(chalk.bold.red(`❌ Failed to create migrations database '${migrationsDatabase}':`), error);
+        this.logger.error(chalk.bold.red(`❌ Failed to create migrations database '${migrationsDatabase}':`), error);
         throw error;
       }
     }
@@ -46,120 +166,287 @@ export class Db {
           CREATE TABLE IF NOT EXISTS ${migrationsDatabase}.__clicksuite_migrations ${clusterClause} (
             version LowCardinality(String),
             active UInt8 NOT NULL DEFAULT 1,
+            checksum String NOT NULL DEFAULT '',
             created_at DateTime64(6, 'UTC') NOT NULL DEFAULT now64()
           )
           ENGINE = ${tableEngine}
           PRIMARY KEY (version)
           ORDER BY (version)
         `;
-      if (this.context.verbose) {
-        console.log(chalk.gray('🔍 Executing initMigrationsTable query:'), chalk.gray(createTableQuery.replace(/\n\s*/g, ' ').trim()));
-      }
+      this.logger.debug(chalk.gray('🔍 Executing initMigrationsTable query:'), chalk.gray(createTableQuery.replace(/\n\s*/g, ' ').trim()));
       await this.client.command({
         query: createTableQuery,
         clickhouse_settings: {
           wait_end_of_query: 1,
         },
       });
-      console.log(chalk.green(`✅ Successfully ensured __clicksuite_migrations table exists in ${migrationsDatabase} database.`));
+      this.logger.info(chalk.green(`✅ Successfully ensured __clicksuite_migrations table exists in ${migrationsDatabase} database.`));
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to create __clicksuite_migrations table:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to create __clicksuite_migrations table:'), error);
       throw error;
     }
+
+    // 3) Upgrade tables created by older versions
+    await this.upgradeMigrationsTable();
   }
 
-  async getAppliedMigrations(): Promise<Array<{ version: string, active: number, created_at: string }>> {
+  /**
+   * Add any columns missing from a __clicksuite_migrations table created by an older version.
+   * Runs at most once per Db instance and does nothing if the table does not exist yet.
+   */
+  async upgradeMigrationsTable() {
+    if (this.migrationsTableUpgraded) {
+      return;
+    }
+    const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
     try {
+      const existingColumns = await this._getMigrationsTableColumns(true);
+
+      if (existingColumns.size > 0) {
+        for (const [column, definition] of MIGRATIONS_TABLE_UPGRADE_COLUMNS) {
+          if (existingColumns.has(column)) continue;
+          const alterQuery = `ALTER TABLE ${migrationsDatabase}.__clicksuite_migrations ${clusterClause} ADD COLUMN IF NOT EXISTS ${column} ${definition}`;
+          this.logger.debug(chalk.gray('🔍 Upgrading migrations table:'), chalk.gray(alterQuery));
+          await this.client.command({
+            query: alterQuery,
+            clickhouse_settings: { wait_end_of_query: 1 },
+          });
+          existingColumns.add(column);
+          this.logger.info(chalk.green(`✅ Upgraded __clicksuite_migrations table: added column '${column}'.`));
+        }
+      }
+      this.migrationsTableUpgraded = true;
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to upgrade __clicksuite_migrations table:'), error);
+      throw error;
+    }
+  }
+
+  // Columns of __clicksuite_migrations; empty if the table does not exist yet
+  private async _getMigrationsTableColumns(refresh = false): Promise<Set<string>> {
+    if (!this.migrationsTableColumns || refresh) {
       const migrationsDatabase = this.context.migrationsDatabase || 'default';
       const resultSet = await this.client.query({
-        query: `SELECT version, active, created_at FROM ${migrationsDatabase}.__clicksuite_migrations WHERE active = 1 ORDER BY version ASC`,
+        query: `SELECT name FROM system.columns WHERE database = '${migrationsDatabase}' AND table = '__clicksuite_migrations'`,
       });
       const response = await resultSet.json();
-      const migrations = response.data as Array<{ version: string, active: number, created_at: string }>;
-      return migrations;
-    } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to get applied migrations:'), error);
+      this.migrationsTableColumns = new Set((response.data as {name: string}[]).map(column => column.name));
+    }
+    return this.migrationsTableColumns;
+  }
+
+  // Read migration records without upgrading the table: columns an older version did not create are read as their default
+  private async _readMigrationRecords(where: string): Promise<MigrationRecord[]> {
+    const existingColumns = await this._getMigrationsTableColumns();
+    if (existingColumns.size === 0) {
       return [];
     }
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
+    const upgradeColumns = MIGRATIONS_TABLE_UPGRADE_COLUMNS.map(([column, , fallback]) => existingColumns.has(column) ? column : `${fallback} AS ${column}`);
+    const resultSet = await this.client.query({
+      query: `SELECT version, active, ${upgradeColumns.join(', ')}, created_at FROM ${migrationsDatabase}.__clicksuite_migrations ${where}ORDER BY version ASC`,
+    });
+    const response = await resultSet.json();
+    return response.data as MigrationRecord[];
   }
-  
-  async getAllMigrationRecords(): Promise<Array<{ version: string, active: number, created_at: string }>> {
+
+  async getAppliedMigrations(): Promise<MigrationRecord[]> {
     try {
-      const migrationsDatabase = this.context.migrationsDatabase || 'default';  
-      const resultSet = await this.client.query({
-        query: `SELECT version, active, created_at FROM ${migrationsDatabase}.__clicksuite_migrations ORDER BY version ASC`,
-      });
-      const response = await resultSet.json();
-      const migrations = response.data as Array<{ version: string, active: number, created_at: string }>;
-      return migrations;
+      return await this._readMigrationRecords('WHERE active = 1 ');
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to get all migration records:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to get applied migrations:'), error);
       return [];
     }
   }
 
-  private splitQueries(sql: string): string[] {
-    // Split by semicolon and filter out empty queries
-    return sql
-      .split(';')
-      .map(query => query.trim())
-      .filter(query => query.length > 0);
+  async getAllMigrationRecords(): Promise<MigrationRecord[]> {
+    try {
+      return await this._readMigrationRecords('');
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to get all migration records:'), error);
+      return [];
+    }
   }
 
-  async executeMigration(query: string, query_settings?: Record<string, any>) {
+  async executeMigration(query: string, query_settings?: Record<string, any>, options: ExecuteMigrationOptions = {}) {
     try {
-      const queries = this.splitQueries(query);
+      const queries = splitStatements(query);
+      const startAt = options.startAt || 0;
       
       if (queries.length === 0) {
-        console.warn(chalk.yellow('⚠️ No queries found to execute'));
+        this.logger.warn(chalk.yellow('⚠️ No queries found to execute'));
         return;
       }
 
       if (queries.length === 1) {
-        if (this.context.verbose) {
-          console.log(chalk.gray('🔍 Executing migration query:'), chalk.gray(query.replace(/\n\s*/g, ' ').trim()));
+        this.logger.debug(chalk.gray('🔍 Executing migration query:'), chalk.gray(queries[0].replace(/\n\s*/g, ' ').trim()));
+        const timing = await this._executeStatement(queries[0], query_settings, options.waitForMutations !== false);
+        if (options.onStatementComplete) {
+          await options.onStatementComplete(0, 1, queries[0], timing);
         }
-        await this.client.command({
-          query: query,
-          clickhouse_settings: {
-            ...query_settings,
-            wait_end_of_query: 1,
-          },
-        });
       } else {
-        if (this.context.verbose) {
-          console.log(chalk.gray(`🔍 Executing ${queries.length} migration queries:`));
-          for (let i = 0; i < queries.length; i++) {
-            const individualQuery = queries[i];
-            console.log(chalk.gray(`🔍   Query ${i + 1}/${queries.length}:`), chalk.gray(individualQuery.replace(/\n\s*/g, ' ').trim()));
-          }
+        this.logger.debug(chalk.gray(`🔍 Executing ${queries.length} migration queries:`));
+        if (startAt > 0) {
+          this.logger.debug(chalk.gray(`🔍   Skipping ${startAt} already executed ${startAt === 1 ? 'query' : 'queries'}`));
         }
-        for (let i = 0; i < queries.length; i++) {
+        for (let i = startAt; i < queries.length; i++) {
+          this.logger.debug(chalk.gray(`🔍   Query ${i + 1}/${queries.length}:`), chalk.gray(queries[i].replace(/\n\s*/g, ' ').trim()));
+        }
+        for (let i = startAt; i < queries.length; i++) {
           const individualQuery = queries[i];
-          await this.client.command({
-            query: individualQuery,
-            clickhouse_settings: {
-              ...query_settings,
-              wait_end_of_query: 1,
-            },
-          });
+          const timing = await this._executeStatement(individualQuery, query_settings, options.waitForMutations !== false);
+          if (options.onStatementComplete) {
+            await options.onStatementComplete(i, queries.length, individualQuery, timing);
+          }
         }
       }
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to execute migration query:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to execute migration query:'), error);
       throw error;
     }
   }
 
-  async markMigrationApplied(version: string) {
-    try {
-      if (this.context.verbose) {
-        console.log(chalk.gray('🔍 Marking migration applied with version:'), chalk.gray(version));
+  // Add ON CLUSTER to DDL when injectOnCluster is on, or warn about DDL without it in a clustered environment
+  private _prepareStatement(query: string): string {
+    const cluster = this.context.cluster;
+    if (!cluster || !isDdlWithoutOnCluster(query)) {
+      return query;
+    }
+    if (this.context.injectOnCluster) {
+      const rewritten = addOnCluster(query, cluster);
+      this.logger.debug(chalk.gray(`🔍   Added ON CLUSTER ${cluster}:`), chalk.gray(rewritten.replace(/\n\s*/g, ' ').trim()));
+      return rewritten;
+    }
+    const text = query.replace(/\s+/g, ' ').trim();
+    this.logger.warn(chalk.yellow(`⚠️  DDL without ON CLUSTER in a clustered environment (cluster: ${cluster}): ${text.length > 80 ? `${text.slice(0, 77)}...` : text}. Add {on_cluster} or enable injectOnCluster.`));
+    return query;
+  }
+
+  // Run one statement and measure its wall time, including waiting for the end of the query and for the mutation it started
+  private async _executeStatement(statement: string, query_settings: Record<string, any> | undefined, waitForMutations: boolean): Promise<StatementTiming> {
+    const query = this._prepareStatement(statement);
+    const startedAt = Date.now();
+    const result = await this.client.command({
+      query,
+      clickhouse_settings: {
+        ...query_settings,
+        wait_end_of_query: 1,
+      },
+    });
+    const mutationTarget = waitForMutations ? getMutationTarget(query) : undefined;
+    if (mutationTarget) {
+      await this.waitForMutations(mutationTarget, startedAt);
+    }
+    return { durationMs: Date.now() - startedAt, queryId: result?.query_id || '' };
+  }
+
+  /**
+   * Wait until the mutations of a table have finished, reporting how many parts are left to mutate.
+   * On a cluster, this waits for the table's distributed DDL tasks and for the mutations on every replica.
+   * Only mutations created since the statement was sent count, so older stuck or failed mutations of the table are ignored.
+   * @param target - The table the mutations run on
+   * @param since - When the statement that started the mutation was sent, in milliseconds since the epoch
+   * @throws ClicksuiteError MUTATION_FAILED when a mutation reports a failure, MUTATION_TIMEOUT after context.mutationTimeout seconds
+   */
+  async waitForMutations(target: MutationTarget, since: number = Date.now()) {
+    const timeoutSeconds = this.context.mutationTimeout ?? DEFAULT_MUTATION_TIMEOUT_SECONDS;
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    const tableName = target.database ? `${target.database}.${target.table}` : target.table;
+    let reported = '';
+
+    while (true) {
+      const pending = await this._getPendingMutations(target, since);
+      if (pending.length === 0) {
+        if (reported) {
+          this.logger.info(chalk.green(`   ✅ Mutations on ${tableName} finished`));
+        }
+        return;
+      }
+
+      const failed = pending.find(mutation => mutation.fail_reason);
+      if (failed) {
+        throw new ClicksuiteError('MUTATION_FAILED', `Mutation ${failed.id} on ${tableName}${failed.host ? ` (${failed.host})` : ''} failed: ${failed.fail_reason}`);
+      }
+
+      const partsToDo = pending.reduce((sum, mutation) => sum + Number(mutation.parts_to_do), 0);
+      const progress = `${pending.length} mutation(s) on ${tableName} (${partsToDo} part(s) to do)`;
+      if (Date.now() >= deadline) {
+        throw new ClicksuiteError('MUTATION_TIMEOUT', `Timed out after ${timeoutSeconds}s waiting for ${progress}: ${pending.map(mutation => mutation.id).join(', ')}. They keep running in the background; check system.mutations before retrying.`);
+      }
+      if (progress !== reported) {
+        this.logger.info(chalk.yellow(`   ⏳ Waiting for ${progress}...`));
+        reported = progress;
       }
+      await sleep(Math.min(MUTATION_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  private async _getPendingMutations(target: MutationTarget, since: number): Promise<PendingMutation[]> {
+    const cluster = this.context.cluster;
+    const databaseCondition = target.database ? `database = ${quoteString(target.database)}` : 'database = currentDatabase()';
+    const pending: PendingMutation[] = [];
+    // Measured against the server clock; the extra second covers create_time's whole-second precision
+    const secondsAgo = Math.ceil((Date.now() - since) / 1000) + 1;
+
+    if (cluster) {
+      // ON CLUSTER statements return once every host picked up the task, or after distributed_ddl_task_timeout
+      pending.push(...await this.query<PendingMutation>(
+        `SELECT host, entry AS id, 0 AS parts_to_do, '' AS fail_reason FROM system.distributed_ddl_queue WHERE cluster = ${quoteString(cluster)} AND status NOT IN ('Finished', 'Removing') AND query_create_time >= now() - INTERVAL ${secondsAgo} SECOND AND position(query, ${quoteString(target.table)}) > 0`,
+      ));
+    }
+
+    const mutationsTable = cluster ? `clusterAllReplicas(${quoteString(cluster)}, system.mutations)` : 'system.mutations';
+    pending.push(...await this.query<PendingMutation>(
+      `SELECT hostName() AS host, mutation_id AS id, parts_to_do, latest_fail_reason AS fail_reason FROM ${mutationsTable} WHERE ${databaseCondition} AND table = ${quoteString(target.table)} AND is_done = 0 AND create_time >= now() - INTERVAL ${secondsAgo} SECOND ORDER BY create_time ASC`,
+    ));
+    return pending;
+  }
+
+  /**
+   * Read the tables, views and dictionaries matching the targets from every replica of the cluster
+   * @param targets - The objects to read; a target without a name matches every object of its database
+   * @returns The hostnames of all replicas and the matching objects on each of them
+   */
+  async getReplicaTables(targets: DdlTarget[]): Promise<{ hosts: string[]; tables: ReplicaTableRecord[] }> {
+    if (!this.context.cluster) {
+      throw new Error('Verifying replicas requires a cluster.');
+    }
+    const cluster = quoteString(this.context.cluster);
+    const conditions = targets.map(target => {
+      const database = target.database ? `database = ${quoteString(target.database)}` : 'database = currentDatabase()';
+      return target.name ? `(${database} AND name = ${quoteString(target.name)})` : `(${database})`;
+    });
+    const hosts = await this.query<{ host: string }>(`SELECT DISTINCT hostName() AS host FROM clusterAllReplicas(${cluster}, system.one) ORDER BY host`);
+    const tables = await this.query<ReplicaTableRecord>(
+      `SELECT hostName() AS host, database, name, create_table_query FROM clusterAllReplicas(${cluster}, system.tables) WHERE ${conditions.join(' OR ')} ORDER BY database, name, host`,
+    );
+    return { hosts: hosts.map(row => row.host), tables };
+  }
+
+  async query<T = Record<string, any>>(query: string, query_settings?: Record<string, any>): Promise<T[]> {
+    try {
+      this.logger.debug(chalk.gray('🔍 Executing query:'), chalk.gray(query.replace(/\n\s*/g, ' ').trim()));
+      const resultSet = await this.client.query({
+        query,
+        clickhouse_settings: query_settings,
+      });
+      const response = await resultSet.json();
+      return response.data as T[];
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to run query:'), error);
+      throw error;
+    }
+  }
+
+  async markMigrationApplied(version: string, checksum: string = '') {
+    try {
+      this.logger.debug(chalk.gray('🔍 Marking migration applied with version:'), chalk.gray(version));
+      await this.upgradeMigrationsTable();
       const migrationsDatabase = this.context.migrationsDatabase || 'default';
       await this.client.insert({
         table: `${migrationsDatabase}.__clicksuite_migrations`,
-        values: [{ version, active: 1, created_at: new Date().toISOString() }],
+        values: [{ version, active: 1, checksum, created_at: new Date().toISOString() }],
         format: 'JSONEachRow',
         clickhouse_settings: {
           date_time_input_format: 'best_effort'
@@ -168,16 +455,14 @@ export class Db {
 
       await this.optimizeMigrationTable();
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to mark migration as applied:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to mark migration as applied:'), error);
       throw error;
     }
   }
 
   async markMigrationRolledBack(version: string) {
     try {
-      if (this.context.verbose) {
-        console.log(chalk.gray('🔍 Marking migration rolled back for version:'), chalk.gray(version));
-      }
+      this.logger.debug(chalk.gray('🔍 Marking migration rolled back for version:'), chalk.gray(version));
       const migrationsDatabase = this.context.migrationsDatabase || 'default';
       await this.client.insert({
         table: `${migrationsDatabase}.__clicksuite_migrations`,
@@ -190,35 +475,36 @@ export class Db {
 
       await this.optimizeMigrationTable();
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to mark migration as rolled back:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to mark migration as rolled back:'), error);
       throw error;
     }
   }
 
+  // Keys are sorted and statements stabilized, so an unchanged database always yields the same schema
   async getDatabaseSchema(): Promise<Record<string, string>> {
     const schema: Record<string, string> = {};
     const tables = await this.getDatabaseTables();
     for (const table of tables) {
         if (table.name.startsWith('.')) continue;
         try {
-            schema[`table/${table.database}.${table.name}`] = await this.getCreateTableQueryForDb(table.name, table.database, 'TABLE');
-        } catch (e) { console.warn(chalk.yellow(`⚠️ Could not get CREATE TABLE for ${table.database}.${table.name}`), e); }
+            schema[`table/${table.database}.${table.name}`] = stabilizeStatement(await this.getCreateTableQueryForDb(table.name, table.database, 'TABLE'), this.context.schema);
+        } catch (e) { this.logger.warn(chalk.yellow(`⚠️ Could not get CREATE TABLE for ${table.database}.${table.name}`), e); }
     }
     const views = await this.getDatabaseMaterializedViews();
     for (const view of views) {
         if (view.name.startsWith('.')) continue;
         try {
-            schema[`view/${view.database}.${view.name}`] = await this.getCreateTableQueryForDb(view.name, view.database, 'VIEW');
-        } catch (e) { console.warn(chalk.yellow(`⚠️ Could not get CREATE VIEW for ${view.database}.${view.name}`), e); }
+            schema[`view/${view.database}.${view.name}`] = stabilizeStatement(await this.getCreateTableQueryForDb(view.name, view.database, 'VIEW'), this.context.schema);
+        } catch (e) { this.logger.warn(chalk.yellow(`⚠️ Could not get CREATE VIEW for ${view.database}.${view.name}`), e); }
     }
     const dictionaries = await this.getDatabaseDictionaries();
     for (const dict of dictionaries) {
         if (dict.name.startsWith('.')) continue;
         try {
-            schema[`dictionary/${dict.database}.${dict.name}`] = await this.getCreateTableQueryForDb(dict.name, dict.database, 'DICTIONARY');
-        } catch (e) { console.warn(chalk.yellow(`⚠️ Could not get CREATE DICTIONARY for ${dict.database}.${dict.name}`), e); }
+            schema[`dictionary/${dict.database}.${dict.name}`] = stabilizeStatement(await this.getCreateTableQueryForDb(dict.name, dict.database, 'DICTIONARY'), this.context.schema);
+        } catch (e) { this.logger.warn(chalk.yellow(`⚠️ Could not get CREATE DICTIONARY for ${dict.database}.${dict.name}`), e); }
     }
-    return schema;
+    return Object.fromEntries(Object.keys(schema).sort().map(key => [key, schema[key]]));
   }
 
   async getLatestMigration(): Promise<string | undefined> {
@@ -234,9 +520,9 @@ export class Db {
         query: `SELECT name, database FROM system.tables WHERE database NOT IN ('system', 'information_schema', 'INFORMATION_SCHEMA') AND engine NOT LIKE '%View' AND engine != 'MaterializedView'`,
       });
       const response = await resultSet.json();
-      return response.data as {name: string, database: string}[];
+      return this._filterSchemaScope(response.data as {name: string, database: string}[]);
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to get database tables:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to get database tables:'), error);
       return [];
     }
   }
@@ -247,9 +533,9 @@ export class Db {
         query: `SELECT name, database FROM system.tables WHERE database NOT IN ('system', 'information_schema', 'INFORMATION_SCHEMA') AND engine = 'MaterializedView'`,
       });
       const response = await resultSet.json();
-      return response.data as {name: string, database: string}[];
+      return this._filterSchemaScope(response.data as {name: string, database: string}[]);
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to get materialized views:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to get materialized views:'), error);
       return [];
     }
   }
@@ -260,13 +546,18 @@ export class Db {
         query: `SELECT name, database FROM system.dictionaries WHERE database NOT IN ('system', 'information_schema', 'INFORMATION_SCHEMA')`,
       });
       const response = await resultSet.json();
-      return response.data as {name: string, database: string}[];
+      return this._filterSchemaScope(response.data as {name: string, database: string}[]);
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to get dictionaries:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to get dictionaries:'), error);
       return [];
     }
   }
 
+  // Keep the objects the context's schema options include in the schema snapshot
+  private _filterSchemaScope(objects: {name: string, database: string}[]): {name: string, database: string}[] {
+    return objects.filter(object => isInSchemaScope(object.database, object.name, this.context.schema));
+  }
+
   async getDatabaseTablesForDb(database: string): Promise<{name: string}[]> {
     try {
       const resultSet = await this.client.query({
@@ -275,7 +566,7 @@ export class Db {
       const response = await resultSet.json();
       return response.data as {name: string}[];
     } catch (error) {
-      console.error(chalk.bold.red(`❌ Failed to get tables for database ${database}:`), error);
+      this.logger.error(chalk.bold.red(`❌ Failed to get tables for database ${database}:`), error);
       return [];
     }
   }
@@ -288,7 +579,7 @@ export class Db {
       const response = await resultSet.json();
       return response.data as {name: string}[];
     } catch (error) {
-      console.error(chalk.bold.red(`❌ Failed to get materialized views for database ${database}:`), error);
+      this.logger.error(chalk.bold.red(`❌ Failed to get materialized views for database ${database}:`), error);
       return [];
     }
   }
@@ -301,7 +592,7 @@ export class Db {
       const response = await resultSet.json();
       return response.data as {name: string}[];
     } catch (error) {
-      console.error(chalk.bold.red(`❌ Failed to get dictionaries for database ${database}:`), error);
+      this.logger.error(chalk.bold.red(`❌ Failed to get dictionaries for database ${database}:`), error);
       return [];
     }
   }
@@ -312,9 +603,7 @@ export class Db {
       // For materialized views, we need to use SHOW CREATE TABLE, not SHOW CREATE MATERIALIZED VIEW
       const objectType = type === 'VIEW' ? 'TABLE' : type;
       const showQuery = `SHOW CREATE ${objectType} ${database}.${name}`;
-      if (this.context.verbose) {
-        console.log(chalk.gray(`🔍  Executing schema query: ${showQuery}`));
-      }
+      this.logger.debug(chalk.gray(`🔍  Executing schema query: ${showQuery}`));
       const resultSet = await this.client.query({ query: showQuery });
       const response = await resultSet.json<{statement: string}>();
       if (response.data.length === 0) {
@@ -333,7 +622,7 @@ export class Db {
       
       return cleanedText;
     } catch (error) {
-      console.error(chalk.bold.red(`❌  Failed to get create query for ${type} ${database}.${name}:`), error);
+      this.logger.error(chalk.bold.red(`❌  Failed to get create query for ${type} ${database}.${name}:`), error);
       throw error;
     }
   }
@@ -348,7 +637,7 @@ export class Db {
         },
       });
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to optimize migration table:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to optimize migration table:'), error);
       throw error;
     }
   }
@@ -357,23 +646,312 @@ export class Db {
     await this.client.close();
   }
 
+  async initMigrationStepsTable() {
+    if (this.migrationStepsTableReady) {
+      return;
+    }
+    const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
+    const tableEngine = this.context.cluster ? `ReplicatedReplacingMergeTree('/clickhouse/tables/{shard}/__clicksuite_migration_steps', '{replica}', created_at)` : 'ReplacingMergeTree(created_at)';
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
+    try {
+      const createTableQuery = `
+          CREATE TABLE IF NOT EXISTS ${migrationsDatabase}.__clicksuite_migration_steps ${clusterClause} (
+            version LowCardinality(String),
+            statement_index UInt32,
+            statement_count UInt32,
+            checksum String,
+            created_at DateTime64(6, 'UTC') NOT NULL DEFAULT now64()
+          )
+          ENGINE = ${tableEngine}
+          ORDER BY (version, statement_index)
+        `;
+      this.logger.debug(chalk.gray('🔍 Ensuring migration steps table exists:'), chalk.gray(createTableQuery.replace(/\n\s*/g, ' ').trim()));
+      await this.client.command({
+        query: createTableQuery,
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+        },
+      });
+      this.migrationStepsTableReady = true;
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to create __clicksuite_migration_steps table:'), error);
+      throw error;
+    }
+  }
+
+  // Whether a table exists in the migrations database, checked without creating it
+  private async _migrationsDatabaseTableExists(table: string): Promise<boolean> {
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
+    const resultSet = await this.client.query({
+      query: `SELECT count() AS count FROM system.tables WHERE database = '${migrationsDatabase}' AND name = '${table}'`,
+    });
+    const response = await resultSet.json();
+    return Number((response.data as {count: number | string}[])[0]?.count) > 0;
+  }
+
+  /**
+   * Read the recorded statement progress. A missing steps table means no progress was recorded;
+   * it is only created when progress is written, so status checks and dry runs never run DDL.
+   */
+  async getMigrationSteps(version?: string): Promise<MigrationStepRecord[]> {
+    try {
+      if (!this.migrationStepsTableReady && !(await this._migrationsDatabaseTableExists('__clicksuite_migration_steps'))) {
+        return [];
+      }
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      const whereClause = version ? ` WHERE version = '${version}'` : '';
+      const resultSet = await this.client.query({
+        query: `SELECT version, statement_index, statement_count, checksum, created_at FROM ${migrationsDatabase}.__clicksuite_migration_steps FINAL${whereClause} ORDER BY version ASC, statement_index ASC`,
+      });
+      const response = await resultSet.json();
+      return response.data as MigrationStepRecord[];
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to get migration steps:'), error);
+      throw error;
+    }
+  }
+
+  async markStatementApplied(version: string, statementIndex: number, statementCount: number, checksum: string) {
+    try {
+      await this.initMigrationStepsTable();
+      this.logger.debug(chalk.gray(`🔍 Recording statement ${statementIndex + 1}/${statementCount} of migration:`), chalk.gray(version));
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      await this.client.insert({
+        table: `${migrationsDatabase}.__clicksuite_migration_steps`,
+        values: [{ version, statement_index: statementIndex, statement_count: statementCount, checksum, created_at: new Date().toISOString() }],
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          date_time_input_format: 'best_effort'
+        }
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to record migration statement progress:'), error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove recorded statement progress for one migration, or for all migrations when no version is given
+   */
+  async clearMigrationSteps(version?: string) {
+    try {
+      await this.initMigrationStepsTable();
+      const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      const query = version
+        ? `ALTER TABLE ${migrationsDatabase}.__clicksuite_migration_steps ${clusterClause} DELETE WHERE version = '${version}'`
+        : `TRUNCATE TABLE IF EXISTS ${migrationsDatabase}.__clicksuite_migration_steps ${clusterClause}`;
+      this.logger.debug(chalk.gray('🔍 Clearing migration steps:'), chalk.gray(query));
+      await this.client.command({
+        query,
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+          mutations_sync: '2',
+        },
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to clear migration steps:'), error);
+      throw error;
+    }
+  }
+
+  async initMigrationHistoryTable() {
+    if (this.migrationHistoryTableReady) {
+      return;
+    }
+    const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
+    const tableEngine = this.context.cluster ? `ReplicatedMergeTree('/clickhouse/tables/{shard}/__clicksuite_migration_history', '{replica}')` : 'MergeTree()';
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
+    try {
+      const createTableQuery = `
+          CREATE TABLE IF NOT EXISTS ${migrationsDatabase}.__clicksuite_migration_history ${clusterClause} (
+            version LowCardinality(String),
+            name String,
+            action LowCardinality(String),
+            outcome LowCardinality(String),
+            environment LowCardinality(String),
+            clicksuite_version LowCardinality(String),
+            os_user String,
+            host String,
+            git_commit String,
+            duration_ms UInt64,
+            statement_count UInt32,
+            error String,
+            created_at DateTime64(6, 'UTC') NOT NULL DEFAULT now64()
+          )
+          ENGINE = ${tableEngine}
+          ORDER BY (version, created_at)
+        `;
+      this.logger.debug(chalk.gray('🔍 Ensuring migration history table exists:'), chalk.gray(createTableQuery.replace(/\n\s*/g, ' ').trim()));
+      await this.client.command({
+        query: createTableQuery,
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+        },
+      });
+      this.migrationHistoryTableReady = true;
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to create __clicksuite_migration_history table:'), error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the apply and rollback attempts recorded in the migration history, oldest first
+   * @param version - Only return the attempts for this migration version
+   */
+  async getMigrationHistory(version?: string): Promise<MigrationHistoryRecord[]> {
+    try {
+      if (!this.migrationHistoryTableReady && !(await this._migrationsDatabaseTableExists('__clicksuite_migration_history'))) {
+        return [];
+      }
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      const whereClause = version ? ` WHERE version = '${version}'` : '';
+      const resultSet = await this.client.query({
+        query: `SELECT version, name, action, outcome, environment, clicksuite_version, os_user, host, git_commit, duration_ms, statement_count, error, created_at FROM ${migrationsDatabase}.__clicksuite_migration_history${whereClause} ORDER BY created_at ASC, version ASC`,
+      });
+      const response = await resultSet.json();
+      return response.data as MigrationHistoryRecord[];
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to get migration history:'), error);
+      throw error;
+    }
+  }
+
+  async recordMigrationHistory(record: Omit<MigrationHistoryRecord, 'created_at'>) {
+    try {
+      await this.initMigrationHistoryTable();
+      this.logger.debug(chalk.gray(`🔍 Recording ${record.action} of migration in history:`), chalk.gray(record.version));
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      await this.client.insert({
+        table: `${migrationsDatabase}.__clicksuite_migration_history`,
+        values: [{ ...record, created_at: new Date().toISOString() }],
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          date_time_input_format: 'best_effort'
+        }
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to record migration history:'), error);
+      throw error;
+    }
+  }
+
+  async initLockTable() {
+    const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
+    const tableEngine = this.context.cluster ? `ReplicatedReplacingMergeTree('/clickhouse/tables/{shard}/__clicksuite_lock', '{replica}', updated_at)` : 'ReplacingMergeTree(updated_at)';
+    const migrationsDatabase = this.context.migrationsDatabase || 'default';
+    try {
+      const createTableQuery = `
+          CREATE TABLE IF NOT EXISTS ${migrationsDatabase}.__clicksuite_lock ${clusterClause} (
+            owner String,
+            host String,
+            pid UInt32,
+            operation LowCardinality(String),
+            acquired_at DateTime64(3, 'UTC'),
+            heartbeat_at DateTime64(3, 'UTC'),
+            ttl_seconds UInt32,
+            released UInt8 NOT NULL DEFAULT 0,
+            updated_at DateTime64(3, 'UTC') NOT NULL DEFAULT now64(3)
+          )
+          ENGINE = ${tableEngine}
+          ORDER BY (owner)
+        `;
+      this.logger.debug(chalk.gray('🔍 Ensuring lock table exists:'), chalk.gray(createTableQuery.replace(/\n\s*/g, ' ').trim()));
+      await this.client.command({
+        query: createTableQuery,
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+        },
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to create __clicksuite_lock table:'), error);
+      throw error;
+    }
+  }
+
+  async getLockRecords(): Promise<LockRecord[]> {
+    try {
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      const resultSet = await this.client.query({
+        query: `SELECT owner, host, pid, operation, acquired_at, heartbeat_at, ttl_seconds, released, heartbeat_at + toIntervalSecond(ttl_seconds) < now64(3) AS expired FROM ${migrationsDatabase}.__clicksuite_lock FINAL WHERE released = 0 ORDER BY acquired_at ASC, owner ASC`,
+      });
+      const response = await resultSet.json();
+      return response.data as LockRecord[];
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to get migration lock records:'), error);
+      throw error;
+    }
+  }
+
+  // Insert a claim for the lock. The claim time is taken from the server clock, so claims
+  // from hosts with skewed clocks are still ordered by when they reached ClickHouse.
+  async claimLock(record: LockRecord) {
+    try {
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      await this.client.command({
+        query: `INSERT INTO ${migrationsDatabase}.__clicksuite_lock (owner, host, pid, operation, acquired_at, heartbeat_at, ttl_seconds, released, updated_at) SELECT {owner:String}, {host:String}, {pid:UInt32}, {operation:String}, now64(3), now64(3), {ttl_seconds:UInt32}, 0, now64(3)`,
+        query_params: {
+          owner: record.owner,
+          host: record.host,
+          pid: record.pid,
+          operation: record.operation,
+          ttl_seconds: record.ttl_seconds,
+        },
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+        },
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red('❌ Failed to claim migration lock:'), error);
+      throw error;
+    }
+  }
+
+  // Mark a claim as released. Does nothing if it was already released.
+  async releaseLock(owner: string) {
+    await this._rewriteLockRecord(owner, 'heartbeat_at', 1, 'release');
+  }
+
+  // Refresh the heartbeat of a claim that has not been released
+  async refreshLock(owner: string) {
+    await this._rewriteLockRecord(owner, 'now64(3)', 0, 'refresh');
+  }
+
+  // Insert a new version of a live claim, copied on the server. updated_at is the ReplacingMergeTree version,
+  // so it must come from the same clock as the claim, and be later than the current version even if the
+  // server clock is behind the one that wrote it.
+  private async _rewriteLockRecord(owner: string, heartbeatAt: string, released: number, action: string) {
+    try {
+      const migrationsDatabase = this.context.migrationsDatabase || 'default';
+      await this.client.command({
+        query: `INSERT INTO ${migrationsDatabase}.__clicksuite_lock (owner, host, pid, operation, acquired_at, heartbeat_at, ttl_seconds, released, updated_at) SELECT owner, host, pid, operation, acquired_at, ${heartbeatAt}, ttl_seconds, ${released}, greatest(now64(3), updated_at + toIntervalMillisecond(1)) FROM ${migrationsDatabase}.__clicksuite_lock FINAL WHERE owner = {owner:String} AND released = 0`,
+        query_params: { owner },
+        clickhouse_settings: {
+          wait_end_of_query: 1,
+        },
+      });
+    } catch (error) {
+      this.logger.error(chalk.bold.red(`❌ Failed to ${action} migration lock:`), error);
+      throw error;
+    }
+  }
+
   async clearMigrationsTable() {
     try {
       const clusterClause = this.context.cluster ? `ON CLUSTER ${this.context.cluster}` : '';
       const migrationsDatabase = this.context.migrationsDatabase || 'default';
       const query = `TRUNCATE TABLE IF EXISTS ${migrationsDatabase}.__clicksuite_migrations ${clusterClause}`;
-      if (this.context.verbose) {
-        console.log(chalk.gray('🔍 Clearing migrations table:'), chalk.gray(query));
-      }
+      this.logger.debug(chalk.gray('🔍 Clearing migrations table:'), chalk.gray(query));
       await this.client.command({
         query: query,
         clickhouse_settings: {
           wait_end_of_query: 1,
         },
       });
-      console.log(chalk.green('✅ Successfully cleared __clicksuite_migrations table.'));
+      this.logger.info(chalk.green('✅ Successfully cleared __clicksuite_migrations table.'));
     } catch (error) {
-      console.error(chalk.bold.red('❌ Failed to clear __clicksuite_migrations table:'), error);
+      this.logger.error(chalk.bold.red('❌ Failed to clear __clicksuite_migrations table:'), error);
       throw error;
     }
   }
@@ -0,0 +1,56 @@
+// Stable error codes reported in JSON output. Errors without a code are reported as UNEXPECTED_ERROR.
+export type ErrorCode =
+  | 'MIGRATION_FAILED'   // A migration's up SQL or function failed
+  | 'ROLLBACK_FAILED'    // A migration's down SQL or function failed
+  | 'DRIFT_DETECTED'     // Applied migrations were modified after being applied
+  | 'SCHEMA_DRIFT'       // The live database schema differs from schema.sql
+  | 'SCHEMA_LOAD_FAILED' // An object from schema.sql could not be created, or a migration could not be marked as applied
+  | 'SQUASH_CONFLICT'    // Migrations cannot be squashed, or a baseline applied, in the database's current state
+  | 'PARTIAL_MIGRATION'  // A partially applied migration cannot be resumed automatically
+  | 'OUT_OF_ORDER'       // Pending migrations are older than the latest applied one and the outOfOrder policy is 'error'
+  | 'LOCK_TIMEOUT'       // Another process held the migration lock for too long
+  | 'MUTATION_FAILED'    // A mutation started by a migration statement reported a failure
+  | 'MUTATION_TIMEOUT'   // A mutation started by a migration statement did not finish within mutationTimeout
+  | 'REPLICA_MISMATCH'   // The objects a migration worked on differ between the replicas of the cluster
+  | 'VERSION_NOT_FOUND'  // The version chosen with --only is not pending (migrate:up), or not applied or missing locally (migrate:down)
+  | 'CONFIRMATION_REQUIRED' // A prompt was needed with JSON/NDJSON output and without --non-interactive
+  | 'ABORTED'            // The user aborted the operation at a prompt
+  | 'UNEXPECTED_ERROR';
+
+/**
+ * Error raised by clicksuite with a stable code, for callers that need to tell failures apart
+ */
+export class ClicksuiteError extends Error {
+  code: ErrorCode;
+  version?: string; // Version of the migration the error relates to, if any
+  cause?: unknown;  // The underlying error, e.g. the ClickHouse error for a failed statement
+
+  constructor(code: ErrorCode, message: string, options: { version?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ClicksuiteError';
+    this.code = code;
+    this.version = options.version;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Attach a code and migration version to an error unless it already carries a clicksuite code
+ * @param error - The error to wrap
+ * @param code - The code to use for errors without one
+ * @param version - The version of the migration that failed
+ * @returns A ClicksuiteError with the original message
+ */
+export function toClicksuiteError(error: any, code: ErrorCode, version?: string): ClicksuiteError {
+  if (error instanceof ClicksuiteError) {
+    if (version && !error.version) {
+      error.version = version;
+    }
+    return error;
+  }
+  const wrapped = new ClicksuiteError(code, error?.message ?? String(error), { version, cause: error });
+  if (error?.stack) {
+    wrapped.stack = error.stack;
+  }
+  return wrapped;
+}
@@ -0,0 +1,191 @@
+import { Context, LockRecord, Logger } from './types';
+import { Db } from './db';
+import { getLogger } from './logger';
+import { ClicksuiteError } from './errors';
+import * as crypto from 'crypto';
+import * as os from 'os';
+import chalk from 'chalk';
+
+const DEFAULT_LOCK_TIMEOUT_SECONDS = 60;
+const DEFAULT_LOCK_TTL_SECONDS = 300;
+const LOCK_POLL_INTERVAL_MS = 2000;
+// How long a winning claim waits before confirming it is still the earliest one. A claim inserted
+// just before ours may not have been visible when we first read the table.
+const LOCK_SETTLE_MS = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Helper function to check whether a process on this host is still running
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM means the process exists but belongs to another user
+    return e.code === 'EPERM';
+  }
+}
+
+// A lock is stale when its holder stopped sending heartbeats, or when the holder
+// ran on this host and its process no longer exists.
+function isStale(record: LockRecord): boolean {
+  if (Number(record.expired) === 1) {
+    return true;
+  }
+  return record.host === os.hostname() && !isProcessAlive(Number(record.pid));
+}
+
+function describeHolder(record: LockRecord): string {
+  return `${record.operation} on ${record.host} (PID ${record.pid}, acquired at ${record.acquired_at})`;
+}
+
+/**
+ * Advisory lock stored in the __clicksuite_lock table that keeps concurrent clicksuite
+ * processes from running migrations against the same database at the same time.
+ *
+ * ClickHouse has no compare-and-set, so every contender inserts a claim row stamped with
+ * the server's clock and the earliest live claim wins. A claim only counts once it is the
+ * earliest on two reads a settle delay apart. Losers withdraw their claim and retry until lockTimeout.
+ * Heartbeats and releases are stamped on the server too, so a client with a skewed clock
+ * cannot write a row that loses to an older version.
+ */
+export class MigrationLock {
+  private db: Db;
+  private context: Context;
+  private logger: Logger;
+  private record: LockRecord;
+  private heartbeat?: NodeJS.Timeout;
+  private held = false;
+
+  constructor(db: Db, context: Context, operation: string) {
+    this.db = db;
+    this.context = context;
+    this.logger = getLogger(context);
+    const now = new Date().toISOString();
+    this.record = {
+      owner: crypto.randomUUID(),
+      host: os.hostname(),
+      pid: process.pid,
+      operation,
+      acquired_at: now,
+      heartbeat_at: now,
+      ttl_seconds: context.lockTtl ?? DEFAULT_LOCK_TTL_SECONDS,
+      released: 0,
+    };
+  }
+
+  /**
+   * Acquire the lock, waiting up to context.lockTimeout seconds for another holder to release it.
+   * Stale locks left behind by crashed processes are taken over.
+   */
+  async acquire() {
+    const timeoutSeconds = this.context.lockTimeout ?? DEFAULT_LOCK_TIMEOUT_SECONDS;
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    let announcedWait = false;
+
+    await this.db.initLockTable();
+
+    while (true) {
+      const holder = await this._currentHolder();
+
+      if (!holder) {
+        this.record = { ...this.record, released: 0 };
+        await this.db.claimLock(this.record);
+
+        // Another process may have claimed the lock at the same time; the earliest claim wins.
+        let winner = await this._currentHolder();
+        if (winner && winner.owner === this.record.owner) {
+          await sleep(LOCK_SETTLE_MS);
+          winner = await this._currentHolder();
+        }
+        if (winner && winner.owner === this.record.owner) {
+          this.held = true;
+          this._startHeartbeat();
+          this.logger.debug(chalk.gray(`🔒 Acquired migration lock for ${this.record.operation}`));
+          return;
+        }
+        await this.db.releaseLock(this.record.owner);
+        if (winner) {
+          continue;
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        const holderDescription = holder ? describeHolder(holder) : 'another process';
+        throw new ClicksuiteError('LOCK_TIMEOUT', `Timed out after ${timeoutSeconds}s waiting for the migration lock held by ${holderDescription}. If that process is no longer running, use 'clicksuite migrate:unlock'.`);
+      }
+      if (!announcedWait && holder) {
+        this.logger.info(chalk.yellow(`⏳ Waiting for the migration lock held by ${describeHolder(holder)}...`));
+        announcedWait = true;
+      }
+      await sleep(Math.min(LOCK_POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  async release() {
+    if (!this.held) {
+      return;
+    }
+    this._stopHeartbeat();
+    this.held = false;
+    try {
+      await this.db.releaseLock(this.record.owner);
+      this.logger.debug(chalk.gray(`🔓 Released migration lock for ${this.record.operation}`));
+    } catch (error: any) {
+      this.logger.warn(chalk.yellow(`⚠️ Could not release the migration lock: ${error.message}. It will expire after ${this.record.ttl_seconds}s.`));
+    }
+  }
+
+  /**
+   * Release every outstanding lock regardless of owner, for manual recovery
+   * @returns The lock records that were released
+   */
+  static async forceRelease(db: Db): Promise<LockRecord[]> {
+    await db.initLockTable();
+    const records = await db.getLockRecords();
+    for (const record of records) {
+      await db.releaseLock(record.owner);
+    }
+    return records;
+  }
+
+  static isStale(record: LockRecord): boolean {
+    return isStale(record);
+  }
+
+  // Return the earliest live claim, releasing stale ones along the way
+  private async _currentHolder(): Promise<LockRecord | undefined> {
+    const records = await this.db.getLockRecords();
+    for (const record of records) {
+      if (record.owner === this.record.owner) {
+        return record;
+      }
+      if (isStale(record)) {
+        this.logger.warn(chalk.yellow(`⚠️ Taking over stale migration lock held by ${describeHolder(record)}.`));
+        await this.db.releaseLock(record.owner);
+        continue;
+      }
+      return record;
+    }
+    return undefined;
+  }
+
+  private _startHeartbeat() {
+    const intervalMs = Math.max(Math.floor((this.record.ttl_seconds * 1000) / 3), 1000);
+    this.heartbeat = setInterval(() => {
+      this.db.refreshLock(this.record.owner).catch((error: any) => {
+        this.logger.warn(chalk.yellow(`⚠️ Could not refresh the migration lock: ${error.message}`));
+      });
+    }, intervalMs);
+    this.heartbeat.unref();
+  }
+
+  private _stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { Context, Logger } from './types';
+import { getSecrets, redactSecrets } from './config';
+
+/**
+ * Create the logger used when the context has none: it prints to the console like the CLI,
+ * and only prints debug messages in verbose mode
+ * @param context - The context whose verbose flag is checked for each debug message
+ * @returns The console logger
+ */
+export function createConsoleLogger(context: Pick<Context, 'verbose'>): Logger {
+  return {
+    debug: (message, ...args) => {
+      if (context.verbose) {
+        console.log(message, ...args);
+      }
+    },
+    info: (message, ...args) => console.log(message, ...args),
+    warn: (message, ...args) => console.warn(message, ...args),
+    error: (message, ...args) => console.error(message, ...args),
+  };
+}
+
+function redactArgument(arg: any, context: Context): any {
+  if (typeof arg === 'string') {
+    return redactSecrets(arg, context);
+  }
+  if (arg instanceof Error) {
+    const message = redactSecrets(arg.message, context);
+    const stack = arg.stack && redactSecrets(arg.stack, context);
+    if (message === arg.message && stack === arg.stack) {
+      return arg;
+    }
+    // Copy the error rather than changing the one the caller may still throw
+    const redacted = Object.assign(Object.create(Object.getPrototypeOf(arg)), arg);
+    Object.defineProperty(redacted, 'message', { value: message, writable: true, configurable: true });
+    Object.defineProperty(redacted, 'stack', { value: stack, writable: true, configurable: true });
+    return redacted;
+  }
+  return arg;
+}
+
+/**
+ * Get the logger of a context, falling back to the console logger. When the context has secrets
+ * (see getSecrets) or a credential provider, the secrets are redacted from every message and error
+ * before they are logged.
+ * @param context - The context
+ * @returns The logger to use
+ */
+export function getLogger(context: Context): Logger {
+  const logger = context.logger || createConsoleLogger(context);
+  if (getSecrets(context).length === 0 && !context.credentialProvider) {
+    return logger;
+  }
+  const redact = (level: keyof Logger): Logger[keyof Logger] =>
+    (message, ...args) => logger[level](redactSecrets(message, context), ...args.map(arg => redactArgument(arg, context)));
+  return {
+    debug: redact('debug'),
+    info: redact('info'),
+    warn: redact('warn'),
+    error: redact('error'),
+  };
+}
@@ -0,0 +1,107 @@
+import { redactSecrets } from './config';
+import { ClicksuiteError } from './errors';
+import { Context, MigrationStatus } from './types';
+
+// Exit codes shared by every command. PENDING and NOTHING_TO_DO are only used in JSON/NDJSON output modes;
+// in text mode those cases exit with SUCCESS.
+export const EXIT_CODES = {
+  SUCCESS: 0,       // The command did its work
+  FAILURE: 1,       // The command failed
+  PENDING: 2,       // migrate:status found pending migrations, or a dry run has migrations to run
+  NOTHING_TO_DO: 3, // migrate, migrate:up or migrate:down found nothing to apply or roll back
+} as const;
+
+export function isMachineOutput(context: Pick<Context, 'output'>): boolean {
+  return context.output === 'json' || context.output === 'ndjson';
+}
+
+/**
+ * Format a duration for progress messages and the CLI's text output
+ * @param durationMs - The duration in milliseconds
+ * @returns Milliseconds below one second (e.g. '850ms'), otherwise seconds with one decimal (e.g. '2.5s')
+ */
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Write one NDJSON record to stdout
+ * @param record - The record to write
+ */
+export function writeRecord(record: Record<string, any>) {
+  process.stdout.write(JSON.stringify(record) + '\n');
+}
+
+/**
+ * Write the result document of a command in JSON or NDJSON output mode. Does nothing in text mode.
+ * @param context - The command's context
+ * @param command - The command name (e.g., 'migrate:up')
+ * @param result - Command-specific fields of the document
+ */
+export function writeResult(context: Context, command: string, result: Record<string, any>) {
+  if (!isMachineOutput(context)) {
+    return;
+  }
+  const document = { command, status: 'ok', environment: context.environment, ...result };
+  if (context.output === 'ndjson') {
+    writeRecord({ type: 'result', ...document });
+  } else {
+    process.stdout.write(JSON.stringify(document, null, 2) + '\n');
+  }
+}
+
+// What writeError needs of a context. Errors raised while resolving the context have no environment yet.
+type ErrorContext = Pick<Context, 'output' | 'url' | 'password' | 'connection'> & { environment?: string };
+
+/**
+ * Write the error document of a failed command in JSON or NDJSON output mode. Does nothing in text mode.
+ * @param context - The command's context
+ * @param command - The command name (e.g., 'migrate:up')
+ * @param error - The error the command failed with
+ * @param details - Additional command-specific fields of the document
+ */
+export function writeError(context: ErrorContext, command: string, error: any, details: Record<string, any> = {}) {
+  if (!isMachineOutput(context)) {
+    return;
+  }
+  const errorDocument: Record<string, any> = {
+    code: error instanceof ClicksuiteError ? error.code : 'UNEXPECTED_ERROR',
+    message: redactSecrets(error?.message ?? String(error), context),
+  };
+  if (error instanceof ClicksuiteError && error.version) {
+    errorDocument.version = error.version;
+  }
+  const document = { command, status: 'error', environment: context.environment, ...details, error: errorDocument };
+  if (context.output === 'ndjson') {
+    writeRecord({ type: 'result', ...document });
+  } else {
+    process.stdout.write(JSON.stringify(document, null, 2) + '\n');
+  }
+}
+
+/**
+ * Strip the resolved SQL and functions from a migration status for serialization
+ * @param status - The migration status
+ * @returns The fields that describe the migration's state
+ */
+export function serializeStatus(status: MigrationStatus) {
+  return {
+    version: status.version,
+    name: status.name,
+    filePath: status.filePath,
+    state: status.state,
+    appliedAt: status.appliedAt ?? null,
+    checksumMismatch: !!status.checksumMismatch,
+    completedStatements: status.completedStatements ?? null,
+  };
+}
+
+/**
+ * Send console.log/info/warn output to stderr, so stdout only carries JSON in machine output modes
+ */
+export function redirectConsoleToStderr() {
+  const toStderr = (...args: any[]) => console.error(...args);
+  console.log = toStderr;
+  console.info = toStderr;
+  console.warn = toStderr;
+}
@@ -0,0 +1,339 @@
+import { Context, DownResult, MigrationHistoryRecord, MigrationRunResult, MigrationStatus, PlannedMigration, RedoResult, ResetResult, SchemaDiffResult, SchemaLoadResult, SchemaUpdateResult, SkippedMigration, SquashResult, UnlockResult, UpResult } from './types';
+import { splitStatements } from './sql';
+import { formatDuration } from './output';
+import * as path from 'path';
+import chalk from 'chalk';
+
+// Text output of the CLI. Runner methods return their results and the CLI prints them here,
+// so programmatic users get data instead of console output.
+
+// Seconds after which a statement is highlighted as slow when the context sets no slowStatementThreshold
+const DEFAULT_SLOW_STATEMENT_THRESHOLD = 10;
+
+function presentPlan(context: Context, planned: PlannedMigration[], direction: 'up' | 'down') {
+  planned.forEach(plan => {
+    const title = direction === 'up' ? `DRY RUN: Migration ${plan.version} - ${plan.name}` : `DRY RUN: Rolling back ${plan.version} - ${plan.name}`;
+    const label = direction === 'up' ? 'Migration' : 'Rollback';
+    console.log(chalk.magenta(`\n${title}`));
+    console.log(chalk.cyan('┌─') + chalk.cyan(`─ DRY RUN: ${label} ${plan.version} - ${plan.name} `).padEnd(70, '─') + chalk.cyan('─'));
+    console.log(chalk.cyan('│') + ` Environment: ${context.environment}`);
+    if (plan.database) console.log(chalk.cyan('│') + ` Database: ${plan.database}`);
+    if (plan.table) console.log(chalk.cyan('│') + ` Table: ${plan.table}`);
+    console.log(chalk.cyan('│') + ' ');
+    if (plan.resumeFrom) {
+      console.log(chalk.cyan('│') + chalk.yellow(` Partially applied: would offer to resume from statement ${plan.resumeFrom}`));
+    }
+
+    if (/\.(ts|js)$/.test(plan.filePath)) {
+      console.log(chalk.cyan('│') + ` SQL executed by ${direction}() in ${path.basename(plan.filePath)}:`);
+    } else {
+      const queryLabel = plan.statements.length === 1 ? 'query' : 'queries';
+      console.log(chalk.cyan('│') + ` SQL to execute (${plan.statements.length} ${queryLabel}):`);
+    }
+
+    // Show each query indented
+    plan.statements.forEach((statement, index) => {
+      console.log(chalk.cyan('│') + `   ${statement};`);
+      if (index < plan.statements.length - 1) {
+        console.log(chalk.cyan('│') + '   ');
+      }
+    });
+
+    console.log(chalk.cyan('└') + chalk.cyan('─'.repeat(70)));
+  });
+}
+
+function presentSkipped(context: Context, skipped: SkippedMigration[]) {
+  skipped.forEach(skip => {
+    const message = context.dryRun
+      ? `Would skip ${skip.version}: ${skip.reason}`
+      : `⏭️  Skipping ${skip.version}: ${skip.reason}`;
+    console.warn(chalk.yellow(message));
+  });
+}
+
+// Print how long each statement of the applied or rolled back migrations took, highlighting the slow ones
+function presentTimings(context: Context, runs: MigrationRunResult[]) {
+  const statements = runs.flatMap(run => (run.statements || []).map(statement => ({ version: run.version, ...statement })));
+  if (statements.length === 0) {
+    return;
+  }
+  const threshold = context.slowStatementThreshold ?? DEFAULT_SLOW_STATEMENT_THRESHOLD;
+
+  console.log(chalk.bold('\n⏱  Statement timings:'));
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+  statements.forEach(statement => {
+    const text = statement.statement.replace(/\s+/g, ' ').trim();
+    const line = `${formatDuration(statement.durationMs).padStart(8)}  ${statement.version} #${statement.index + 1}  ${text.length > 60 ? `${text.slice(0, 57)}...` : text}`;
+    if (statement.durationMs > threshold * 1000) {
+      console.log(chalk.yellow.bold(`${line}  ⚠️  SLOW`) + (statement.queryId ? chalk.yellow(` (query_id: ${statement.queryId})`) : ''));
+    } else {
+      console.log(line);
+    }
+  });
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+
+  const slow = statements.filter(statement => statement.durationMs > threshold * 1000).length;
+  if (slow > 0) {
+    console.warn(chalk.yellow(`⚠️  ${slow} statement(s) took longer than ${threshold}s.`));
+  }
+}
+
+function presentSchemaUpdate(context: Context, schemaUpdate: SchemaUpdateResult) {
+  if (schemaUpdate.status === 'updated') {
+    if (context.verbose) {
+      console.log(chalk.dim(`✅ Schema file updated: ${schemaUpdate.path}`));
+    } else {
+      console.log(chalk.green('✅ Schema file updated'));
+    }
+  } else if (schemaUpdate.status === 'failed') {
+    console.warn(chalk.yellow(`⚠️ Warning: Could not update schema file: ${schemaUpdate.error}`));
+  }
+}
+
+/**
+ * Print the migration status table
+ * @param context - The command's context
+ * @param migrations - The result of Runner.status()
+ */
+export function presentStatus(context: Context, migrations: MigrationStatus[]) {
+  if (migrations.length === 0) {
+    console.log(chalk.yellow('ℹ️  No migrations found locally or in the database.'));
+    return;
+  }
+
+  console.log(chalk.bold(`\nMigration Status (Env: ${context.environment}, Migrations DB: ${context.migrationsDatabase || 'default'}):`));
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+  migrations.forEach(s => {
+    let stateChalk = chalk.yellow;
+    if (s.state === 'APPLIED') stateChalk = chalk.green;
+    if (s.state === 'INACTIVE') stateChalk = chalk.gray;
+    if (s.state === 'PARTIAL') stateChalk = chalk.red;
+
+    const nameDisplay = s.name === 'N/A (DB only)' ? chalk.italic(s.name) : s.name;
+    const dateDisplay = s.appliedAt ? chalk.dim(`(Applied: ${new Date(s.appliedAt).toLocaleString()})`) : '';
+    const driftDisplay = s.checksumMismatch ? chalk.yellow.bold(' ⚠️  MODIFIED') : '';
+    const partialDisplay = s.state === 'PARTIAL' && s.upSQL
+      ? chalk.red(` (${s.completedStatements}/${splitStatements(s.upSQL).length} statements executed)`)
+      : '';
+
+    console.log(
+      `${stateChalk.bold(s.state.padEnd(10))}` +
+      `${chalk.cyan(s.version)} - ${nameDisplay} ${dateDisplay}${partialDisplay}${driftDisplay}`
+    );
+  });
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+
+  const modified = migrations.filter(s => s.checksumMismatch);
+  if (modified.length > 0) {
+    console.warn(chalk.yellow.bold(`⚠️  ${modified.length} applied migration(s) were modified after being applied:`));
+    modified.forEach(m => console.warn(chalk.yellow(`  ⚠️  ${m.version} - ${m.name} (${m.filePath})`)));
+    console.warn(chalk.yellow(`ℹ️  Run 'clicksuite migrate:verify' for details.`));
+  }
+}
+
+/**
+ * Print the migration history, one line per apply or rollback attempt
+ * @param context - The command's context
+ * @param records - The result of Runner.history()
+ */
+export function presentHistory(context: Context, records: MigrationHistoryRecord[]) {
+  if (records.length === 0) {
+    console.log(chalk.yellow('ℹ️  No migration history recorded yet.'));
+    return;
+  }
+
+  console.log(chalk.bold(`\nMigration History (Env: ${context.environment}, Migrations DB: ${context.migrationsDatabase || 'default'}):`));
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+  records.forEach(record => {
+    const outcomeChalk = record.outcome === 'success' ? chalk.green : chalk.red;
+    const who = `${record.os_user || 'unknown'}@${record.host || 'unknown'}`;
+    const commit = record.git_commit ? ` ${record.git_commit.slice(0, 12)}` : '';
+    console.log(
+      `${chalk.dim(new Date(record.created_at).toLocaleString())} ` +
+      `${outcomeChalk.bold(`${record.action} ${record.outcome}`.padEnd(17))}` +
+      `${chalk.cyan(record.version)} - ${record.name} ` +
+      chalk.dim(`(${formatDuration(Number(record.duration_ms))}, ${record.statement_count} statement(s), ${record.environment}, ${who}${commit}, clicksuite ${record.clicksuite_version || 'unknown'})`)
+    );
+    if (record.error) {
+      console.log(chalk.red(`    ${record.error}`));
+    }
+  });
+  console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+}
+
+/**
+ * Print the outcome of migrate or migrate:up, or the plan of a dry run
+ * @param context - The command's context
+ * @param result - The result of Runner.up() or Runner.migrate()
+ */
+export function presentUp(context: Context, result: UpResult) {
+  if (result.dryRun && result.planned.length > 0) {
+    console.log(chalk.cyan(`🔍  DRY RUN: The following ${result.planned.length} migration(s) would be applied:`));
+    result.planned.forEach(m => console.log(chalk.cyan(`  ✅  ${m.version} - ${m.name}`)));
+    presentPlan(context, result.planned, 'up');
+  }
+  presentSkipped(context, result.skipped);
+
+  if (result.dryRun) {
+    if (result.planned.length > 0 || result.skipped.length > 0) {
+      console.log(chalk.cyan(`\n🔍  DRY RUN COMPLETE: ${result.planned.length} migration(s) would be applied (no changes made)`));
+    }
+    return;
+  }
+  presentTimings(context, result.applied);
+  if (result.applied.length > 0) {
+    console.log(chalk.greenBright(`\n✅  All selected UP migrations applied successfully! (${result.applied.length} migration(s) in ${formatDuration(result.durationMs)})`));
+  }
+  presentSchemaUpdate(context, result.schemaUpdate);
+}
+
+/**
+ * Print the outcome of migrate:down, or the plan of a dry run
+ * @param context - The command's context
+ * @param result - The result of Runner.down()
+ */
+export function presentDown(context: Context, result: DownResult) {
+  if (result.dryRun && result.planned.length > 0) {
+    console.log(chalk.cyan(`🔍 DRY RUN: The following ${result.planned.length} migration(s) would be rolled back (in order):`));
+    result.planned.forEach(m => console.log(chalk.cyan(`  ✅ ${m.version} - ${m.name}`)));
+    presentPlan(context, result.planned, 'down');
+  }
+  presentSkipped(context, result.skipped);
+
+  if (result.dryRun) {
+    if (result.planned.length > 0 || result.skipped.length > 0) {
+      console.log(chalk.cyan(`\n🔍 DRY RUN COMPLETE: ${result.planned.length} migration(s) would be rolled back (no changes made)`));
+    }
+    return;
+  }
+  presentTimings(context, result.rolledBack);
+  if (result.rolledBack.length > 0) {
+    console.log(chalk.greenBright(`\n✅ Selected DOWN migrations completed successfully! (${result.rolledBack.length} migration(s) in ${formatDuration(result.durationMs)})`));
+  }
+  presentSchemaUpdate(context, result.schemaUpdate);
+}
+
+/**
+ * Print the outcome of migrate:redo, or the plans of a dry run
+ * @param context - The command's context
+ * @param result - The result of Runner.redo()
+ */
+export function presentRedo(context: Context, result: RedoResult) {
+  presentDown(context, result.down);
+  if (result.cancelled) {
+    return;
+  }
+  presentUp(context, result.up);
+  presentSchemaUpdate(context, result.schemaUpdate);
+}
+
+/**
+ * Print the outcome of migrate:reset
+ * @param context - The command's context
+ * @param result - The result of Runner.reset()
+ */
+export function presentReset(context: Context, result: ResetResult) {
+  if (result.cancelled) {
+    return;
+  }
+  result.skipped.forEach(skip => console.warn(chalk.yellow(` ⏭️ Skipping rollback of ${skip.version}: ${skip.reason}`)));
+  console.log(chalk.greenBright(`\n✅ Database migrations have been reset successfully! (${result.rolledBack.length} migration(s) rolled back in ${formatDuration(result.durationMs)})`));
+  presentSchemaUpdate(context, result.schemaUpdate);
+}
+
+/**
+ * Print the outcome of schema:load
+ * @param context - The command's context
+ * @param result - The result of Runner.schemaLoad()
+ */
+export function presentSchemaLoad(context: Context, result: SchemaLoadResult) {
+  if (result.created.length > 0) {
+    console.log(chalk.green(`✅ Created ${result.created.length} object(s) from schema.sql.`));
+  }
+  if (result.loaded.length === 0 && result.skipped.length === 0 && result.failed.length === 0) {
+    return;
+  }
+  result.skipped.forEach(version => console.log(chalk.gray(`⏭️ Skipping ${version}: Already marked as active in DB.`)));
+  result.loaded.forEach(version => console.log(chalk.green(`✅ Loaded ${version} into migrations table as APPLIED.`)));
+
+  console.log(chalk.greenBright('\n✅ Schema loading process complete.'));
+  console.log(chalk.cyan(`  ℹ️ ${result.loaded.length} migration(s) newly marked as APPLIED.`));
+  console.log(chalk.gray(`  ℹ️ ${result.skipped.length} migration(s) were already APPLIED and skipped.`));
+  if (result.failed.length > 0) {
+    console.error(chalk.bold.red(`  ❌ ${result.failed.length} migration(s) could not be marked as APPLIED: ${result.failed.join(', ')}`));
+  }
+  presentSchemaUpdate(context, result.schemaUpdate);
+}
+
+/**
+ * Print the differences between schema.sql and the live database
+ * @param context - The command's context
+ * @param result - The result of Runner.schemaDiff()
+ */
+export function presentSchemaDiff(context: Context, result: SchemaDiffResult) {
+  if (result.differences.length === 0) {
+    console.log(chalk.green(`✅  The database schema matches ${path.basename(result.schemaPath)} (Env: ${context.environment}).`));
+    return;
+  }
+
+  const labels = { table: 'Table', view: 'Materialized view', dictionary: 'Dictionary' };
+  result.differences.forEach(difference => {
+    console.log(chalk.bold(`\n${labels[difference.type]} ${difference.name} (${difference.change})`));
+    difference.diff.split('\n').forEach(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) console.log(chalk.bold(line));
+      else if (line.startsWith('@@')) console.log(chalk.cyan(line));
+      else if (line.startsWith('+')) console.log(chalk.green(line));
+      else if (line.startsWith('-')) console.log(chalk.red(line));
+      else console.log(line);
+    });
+  });
+
+  const count = (change: string) => result.differences.filter(d => d.change === change).length;
+  console.warn(chalk.yellow.bold(`\n⚠️  The database schema differs from ${path.basename(result.schemaPath)}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed.`));
+}
+
+/**
+ * Print the outcome of migrate:squash, or its plan in a dry run
+ * @param context - The command's context
+ * @param result - The result of Runner.squash()
+ */
+export function presentSquash(context: Context, result: SquashResult) {
+  if (!result.version || !result.baselinePath || result.cancelled) {
+    return;
+  }
+  if (result.dryRun) {
+    console.log(chalk.cyan(`🔍 DRY RUN: ${result.squashed.length} migration(s) would be squashed into ${result.baselinePath} (${result.objects.length} object(s)).`));
+    result.archived.forEach(file => console.log(chalk.cyan(`  📦 Would archive ${path.basename(file)}`)));
+    console.log(chalk.cyan('\n🔍 DRY RUN COMPLETE: no files were changed'));
+    return;
+  }
+  console.log(chalk.greenBright(`\n✅ Squashed ${result.squashed.length} migration(s) into ${result.baselinePath} (${result.objects.length} object(s)).`));
+  if (result.archived.length > 0) {
+    console.log(chalk.gray(`  ℹ️ Moved ${result.archived.length} file(s) to ${path.dirname(result.archived[0])}`));
+  }
+  console.log(chalk.yellow(`ℹ️  The baseline holds the SQL of the '${context.environment}' environment. Review it, and add sections for environments whose schema differs.`));
+}
+
+/**
+ * Print the outcome of migrate:unlock
+ * @param result - The result of Runner.unlock()
+ */
+export function presentUnlock(result: UnlockResult) {
+  if (result.held.length === 0) {
+    console.log(chalk.green('ℹ️  No migration lock is currently held.'));
+  } else if (result.cancelled) {
+    console.log(chalk.gray('ℹ️  Unlock cancelled by user.'));
+  } else {
+    console.log(chalk.green(`✅  Released ${result.released.length} migration lock record(s).`));
+  }
+}
+
+/**
+ * Print the path of a generated migration file
+ * @param filePath - The result of Runner.generate()
+ */
+export function presentGenerated(filePath: string) {
+  console.log(chalk.green(`✅  Generated new migration file: ${filePath}`));
+  console.log(chalk.yellow('ℹ️  Please edit this file to add your environment-specific migration SQL and update the `table` field.'));
+}
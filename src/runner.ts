@@ -1,5 +1,15 @@
-import { Context, MigrationFile, MigrationRecord, MigrationStatus, MigrationState, RawMigrationFileContent } from './types';
+import { ChecksumMismatch, Context, DdlTarget, DownOptions, DownResult, Logger, MigrationFile, MigrationFunction, MigrationHelper, MigrationHistoryRecord, MigrationModule, MigrationRecord, MigrationRunResult, MigrationStatus, MigrationState, MigrationStepRecord, PlannedMigration, RawMigrationFileContent, RawSqlMigrationContent, RedoResult, ReplicaMismatch, ReplicaTableRecord, ResetResult, RunnerEvents, SchemaDiffResult, SchemaLoadResult, SchemaUpdateResult, SkippedMigration, SquashResult, StatementRunResult, StatementTiming, UnlockResult, UpOptions, UpResult } from './types';
 import { Db } from './db';
+import { redactSecrets, requireModule } from './config';
+import { getLogger } from './logger';
+import { AuditMetadata, getAuditMetadata } from './audit';
+import { ClicksuiteError, toClicksuiteError } from './errors';
+import { MigrationLock } from './lock';
+import { formatDuration, isMachineOutput, writeRecord } from './output';
+import { diffSchemas, formatSchemaObject, normalizeStatement, orderSchemaObjects, parseSchemaFile, splitSchemaKey, stabilizeStatement, toCreateIfNotExists } from './schema';
+import { addOnCluster, addOnClusterPlaceholder, getDdlTargets, parseSqlMigration, parseSqlMigrationPair, splitStatements } from './sql';
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
@@ -8,50 +18,196 @@ import yaml from 'js-yaml';
 import inquirer from 'inquirer';
 
 const MIGRATION_FILE_REGEX = /^(\d{14})_([\w-]+)\.yml$/;
+const SQL_MIGRATION_FILE_REGEX = /^(\d{14})_([\w-]+)(?:\.(up|down))?\.sql$/;
+const SCRIPT_MIGRATION_FILE_REGEX = /^(\d{14})_([\w-]+)\.(ts|js)$/;
+// Tracking tables clicksuite creates itself, left out when creating or squashing the schema
+const CLICKSUITE_OBJECT_REGEX = /\.__clicksuite_/;
+const DROP_KEYWORDS = { table: 'TABLE', view: 'VIEW', dictionary: 'DICTIONARY' };
+
+// Files that make up one plain SQL migration: either a single .sql file or an .up.sql/.down.sql pair
+interface SqlMigrationFiles {
+  version: string;
+  name: string;
+  single?: string;
+  up?: string;
+  down?: string;
+}
 
 // Helper function to interpolate environment variables in SQL
-function interpolateEnvVars(sql: string): string {
+function interpolateEnvVars(sql: string, logger: Logger): string {
   return sql.replace(/\$\{([^}]+)\}/g, (_, envVarName) => {
     const envValue = process.env[envVarName];
     if (envValue === undefined) {
-      console.warn(chalk.yellow(`⚠️  Warning: Environment variable '${envVarName}' is not set. Using empty string.`));
+      logger.warn(chalk.yellow(`⚠️  Warning: Environment variable '${envVarName}' is not set. Using empty string.`));
       return '';
     }
     return envValue;
   });
 }
 
-// Helper function to format SQL with table and database names and environment variables
-function formatSQL(sql?: string, tableName?: string, databaseName?: string): string | undefined {
+// Helper function to replace the {cluster} and {on_cluster} placeholders. Inside string literals {cluster} is
+// left to ClickHouse, which expands it as a macro, e.g. in ReplicatedMergeTree paths.
+function replaceClusterPlaceholders(sql: string, logger: Logger, cluster?: string): string {
+  const formatted = sql.replace(/\{on_cluster\}/g, cluster ? `ON CLUSTER ${cluster}` : '');
+  return formatted.replace(/'(?:[^'\\]|\\.|'')*'|\{cluster\}/g, match => {
+    if (match.startsWith("'")) {
+      return match;
+    }
+    if (!cluster) {
+      logger.warn(chalk.yellow(`⚠️  Warning: {cluster} is used but no cluster is configured. Leaving it unchanged.`));
+      return match;
+    }
+    return cluster;
+  });
+}
+
+// Helper function to format SQL with table, database and cluster names and environment variables
+function formatSQL(logger: Logger, sql?: string, tableName?: string, databaseName?: string, cluster?: string): string | undefined {
   if (!sql) {
     return sql;
   }
   let formatted = sql;
   
-  // First, replace table and database placeholders
+  // First, replace table, database and cluster placeholders
   if (tableName) {
     formatted = formatted.replace(/\{table\}/g, tableName);
   }
   if (databaseName) {
     formatted = formatted.replace(/\{database\}/g, databaseName);
   }
+  formatted = replaceClusterPlaceholders(formatted, logger, cluster);
   
   // Then, interpolate environment variables
-  formatted = interpolateEnvVars(formatted);
+  formatted = interpolateEnvVars(formatted, logger);
   
   return formatted;
 }
 
-export class Runner {
+// Helper function to checksum a migration's resolved up and down SQL for the current environment.
+// For .ts/.js migrations the module source is checksummed instead.
+function migrationChecksum(migration: Pick<MigrationFile, 'upSQL' | 'downSQL' | 'source'>): string {
+  if (migration.source !== undefined) {
+    return crypto.createHash('sha256').update(migration.source).digest('hex');
+  }
+  return crypto
+    .createHash('sha256')
+    .update(migration.upSQL || '')
+    .update('\0')
+    .update(migration.downSQL || '')
+    .digest('hex');
+}
+
+// Helper function to write SQL as a YAML block scalar, indented under an environment's up/down key
+function yamlBlock(sql: string): string {
+  if (!sql) {
+    return '""';
+  }
+  return `|\n${sql.split('\n').map(line => (line ? `    ${line}` : '')).join('\n')}`;
+}
+
+// Helper function to tell whether a later migration works on the same table as a migration, or on the
+// same database when the migration names no table
+function touchesSameObject(migration: MigrationFile, later: MigrationFile): boolean {
+  if (migration.table) {
+    return later.table === migration.table && (!migration.database || !later.database || later.database === migration.database);
+  }
+  return !!migration.database && later.database === migration.database;
+}
+
+// Helper function to name the table or database a migration works on
+function describeTarget(migration: MigrationFile): string {
+  if (migration.table) {
+    return `table ${migration.database ? `${migration.database}.` : ''}${migration.table}`;
+  }
+  return `database ${migration.database}`;
+}
+
+// Helper function to find the objects that exist on only some replicas, or whose definition differs from the one
+// most replicas have. Replica paths and table UUIDs legitimately differ between replicas, so they are ignored.
+function findReplicaMismatches(hosts: string[], tables: ReplicaTableRecord[]): ReplicaMismatch[] {
+  const byObject = new Map<string, ReplicaTableRecord[]>();
+  for (const table of tables) {
+    const key = `${table.database}.${table.name}`;
+    byObject.set(key, [...(byObject.get(key) || []), table]);
+  }
+
+  const mismatches: ReplicaMismatch[] = [];
+  for (const [, replicas] of Array.from(byObject.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const definitions = new Map(replicas.map(replica => [replica.host, stabilizeStatement(replica.create_table_query, { stripReplicaPaths: true })]));
+    const counts = new Map<string, number>();
+    definitions.forEach(definition => counts.set(definition, (counts.get(definition) || 0) + 1));
+    const expected = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+
+    const missingOn = hosts.filter(host => !definitions.has(host));
+    const differingOn = Array.from(definitions.entries()).filter(([, definition]) => definition !== expected).map(([host]) => host).sort();
+    if (missingOn.length > 0 || differingOn.length > 0) {
+      mismatches.push({ database: replicas[0].database, name: replicas[0].name, missingOn, differingOn });
+    }
+  }
+  return mismatches;
+}
+
+// Options of Runner._up. Redo passes the migrations it rolled back as versions, which run even while its dry
+// run still sees them as applied, and updates schema.sql once itself.
+interface RunUpOptions extends UpOptions {
+  versions?: string[];
+  updateSchemaFile?: boolean;
+}
+
+// Helper function to checksum a single statement, used to check that a partial migration can be resumed
+function statementChecksum(statement: string): string {
+  return crypto.createHash('sha256').update(statement).digest('hex');
+}
+
+// Helper function to group statement progress records by migration version
+function groupStepsByVersion(steps: MigrationStepRecord[]): Map<string, MigrationStepRecord[]> {
+  const grouped = new Map<string, MigrationStepRecord[]>();
+  for (const step of steps) {
+    const versionSteps = grouped.get(step.version) || [];
+    versionSteps.push(step);
+    grouped.set(step.version, versionSteps);
+  }
+  return grouped;
+}
+
+// Helper function to count the statements executed in order from the first one
+function countCompletedStatements(steps: MigrationStepRecord[]): number {
+  const executed = new Set(steps.map(step => Number(step.statement_index)));
+  let completed = 0;
+  while (executed.has(completed)) completed++;
+  return completed;
+}
+
+// Helper function to turn an object or database name into a single file name. Path separators and other
+// unsafe characters are percent-encoded, as are the dots of '.' and '..', so a name cannot leave its directory.
+function toPathSegment(name: string): string {
+  const encoded = encodeURIComponent(name);
+  return /^\.*$/.test(encoded) ? encoded.replace(/\./g, '%2E') : encoded;
+}
+
+// Typed signatures for the lifecycle events listed in RunnerEvents
+export interface Runner {
+  on<E extends keyof RunnerEvents>(event: E, listener: (payload: RunnerEvents[E]) => void): this;
+  once<E extends keyof RunnerEvents>(event: E, listener: (payload: RunnerEvents[E]) => void): this;
+  off<E extends keyof RunnerEvents>(event: E, listener: (payload: RunnerEvents[E]) => void): this;
+  emit<E extends keyof RunnerEvents>(event: E, payload: RunnerEvents[E]): boolean;
+}
+
+export class Runner extends EventEmitter {
   private context: Context;
   private db: Db;
+  private logger: Logger;
+  private auditMetadata?: AuditMetadata;
+  private migrationStatements: StatementRunResult[] = []; // Statements completed by the migration currently running
 
   constructor(context: Context) {
+    super();
     this.context = context;
+    this.logger = getLogger(context);
     this.db = new Db(context);
     if (!path.isAbsolute(this.context.migrationsDir)) {
       this.context.migrationsDir = path.resolve(process.cwd(), this.context.migrationsDir);
-      console.warn(chalk.yellow(`⚠️  Runner: migrationsDir was not absolute, resolved to ${this.context.migrationsDir}. This should be resolved in index.ts.`));
+      this.logger.warn(chalk.yellow(`⚠️  Runner: migrationsDir was not absolute, resolved to ${this.context.migrationsDir}. This should be resolved in index.ts.`));
     }
 
     // If a "migrations" subdirectory exists inside the provided directory,
@@ -68,9 +224,31 @@ export class Runner {
 
   private async _getLocalMigrations(): Promise<MigrationFile[]> {
     const migrationFiles: MigrationFile[] = [];
+    const sqlMigrations = new Map<string, SqlMigrationFiles>();
     try {
       const files = await fs.readdir(this.context.migrationsDir);
       for (const file of files) {
+        const sqlMatch = file.match(SQL_MIGRATION_FILE_REGEX);
+        if (sqlMatch) {
+          const key = `${sqlMatch[1]}_${sqlMatch[2]}`;
+          const group = sqlMigrations.get(key) || { version: sqlMatch[1], name: sqlMatch[2].replace(/-/g, ' ') };
+          const filePath = path.join(this.context.migrationsDir, file);
+          if (sqlMatch[3] === 'up') group.up = filePath;
+          else if (sqlMatch[3] === 'down') group.down = filePath;
+          else group.single = filePath;
+          sqlMigrations.set(key, group);
+          continue;
+        }
+
+        const scriptMatch = file.match(SCRIPT_MIGRATION_FILE_REGEX);
+        if (scriptMatch) {
+          const migration = await this._loadScriptMigration(scriptMatch[1], scriptMatch[2].replace(/-/g, ' '), path.join(this.context.migrationsDir, file));
+          if (migration) {
+            migrationFiles.push(migration);
+          }
+          continue;
+        }
+
         const match = file.match(MIGRATION_FILE_REGEX);
         if (match) {
           const version = match[1];
@@ -96,8 +274,8 @@ export class Runner {
             // Format SQL with table and database names if provided
             const tableName = rawContent.table;
             const databaseName = rawContent.database;
-            upSQL = formatSQL(upSQL, tableName, databaseName);
-            downSQL = formatSQL(downSQL, tableName, databaseName);
+            upSQL = formatSQL(this.logger, upSQL, tableName, databaseName, this.context.cluster);
+            downSQL = formatSQL(this.logger, downSQL, tableName, databaseName, this.context.cluster);
             
             migrationFiles.push({
               version,
@@ -108,57 +286,410 @@ export class Runner {
               upSQL: upSQL,
               downSQL: downSQL,
               querySettings: querySettings,
+              squashes: Array.isArray(rawContent.squashes) ? rawContent.squashes.map(String) : undefined,
+              waitForMutations: rawContent.wait_for_mutations,
             });
           } catch (e: any) {
-            console.error(chalk.bold.red(`❌  Error reading or parsing migration file ${filePath}:`), e.message);
+            this.logger.error(chalk.bold.red(`❌  Error reading or parsing migration file ${filePath}:`), e.message);
             if (e.mark) { // js-yaml provides error location
-              console.error(chalk.bold.red(`  at line ${e.mark.line + 1}, column ${e.mark.column + 1}`));
+              this.logger.error(chalk.bold.red(`  at line ${e.mark.line + 1}, column ${e.mark.column + 1}`));
             }
           }
         }
       }
+
+      for (const group of sqlMigrations.values()) {
+        const migration = await this._loadSqlMigration(group);
+        if (migration) {
+          migrationFiles.push(migration);
+        }
+      }
     } catch (e: any) {
       if (e.code === 'ENOENT') {
-        console.log(chalk.yellow(`⚠️  Migrations directory ${this.context.migrationsDir} not found. Run 'clicksuite init' to create it.`));
+        this.logger.info(chalk.yellow(`⚠️  Migrations directory ${this.context.migrationsDir} not found. Run 'clicksuite init' to create it.`));
       } else {
-        console.error(chalk.bold.red('❌  Error reading migrations directory:'), e.message);
+        this.logger.error(chalk.bold.red('❌  Error reading migrations directory:'), e.message);
       }
       return [];
     }
-    return migrationFiles.sort((a, b) => a.version.localeCompare(b.version));
+
+    // Two files claiming the same version would make the applied state ambiguous, so neither is used
+    const filesByVersion = new Map<string, MigrationFile[]>();
+    for (const migration of migrationFiles) {
+      filesByVersion.set(migration.version, [...(filesByVersion.get(migration.version) || []), migration]);
+    }
+    const uniqueMigrations: MigrationFile[] = [];
+    for (const [version, migrations] of filesByVersion) {
+      if (migrations.length > 1) {
+        this.logger.error(chalk.bold.red(`❌  Duplicate migration version ${version}, ignoring: ${migrations.map(m => m.filePath).join(', ')}`));
+        continue;
+      }
+      uniqueMigrations.push(this.context.defaultSettings
+        ? { ...migrations[0], querySettings: { ...this.context.defaultSettings, ...migrations[0].querySettings } }
+        : migrations[0]);
+    }
+    return uniqueMigrations.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  // Read a plain SQL migration and resolve it for the current environment
+  private async _loadSqlMigration(group: SqlMigrationFiles): Promise<MigrationFile | undefined> {
+    const filePath = group.single || group.up || group.down!;
+    try {
+      if (group.single && (group.up || group.down)) {
+        throw new Error(`Use either a single .sql file or an .up.sql/.down.sql pair, not both.`);
+      }
+      if (!group.single && !group.up) {
+        throw new Error(`Missing the matching .up.sql file.`);
+      }
+
+      let rawContent: RawSqlMigrationContent;
+      if (group.single) {
+        rawContent = parseSqlMigration(await fs.readFile(group.single, 'utf-8'));
+      } else {
+        const upContent = await fs.readFile(group.up!, 'utf-8');
+        const downContent = group.down ? await fs.readFile(group.down, 'utf-8') : undefined;
+        rawContent = parseSqlMigrationPair(upContent, downContent);
+      }
+
+      // Migrations restricted to other environments resolve to no SQL, like YAML migrations without a section for this environment
+      const appliesToEnvironment = !rawContent.environments || rawContent.environments.includes(this.context.environment);
+
+      return {
+        version: group.version,
+        name: group.name,
+        filePath,
+        table: rawContent.table,
+        database: rawContent.database,
+        upSQL: appliesToEnvironment ? formatSQL(this.logger, rawContent.upSQL, rawContent.table, rawContent.database, this.context.cluster) : undefined,
+        downSQL: appliesToEnvironment ? formatSQL(this.logger, rawContent.downSQL, rawContent.table, rawContent.database, this.context.cluster) : undefined,
+        querySettings: rawContent.settings,
+        waitForMutations: rawContent.waitForMutations,
+      };
+    } catch (e: any) {
+      this.logger.error(chalk.bold.red(`❌  Error reading or parsing migration file ${filePath}:`), e.message);
+      return undefined;
+    }
+  }
+
+  // Load a .ts/.js migration module and resolve it for the current environment
+  private async _loadScriptMigration(version: string, name: string, filePath: string): Promise<MigrationFile | undefined> {
+    try {
+      const source = await fs.readFile(filePath, 'utf-8');
+      const migrationModule = this._requireMigrationModule(filePath);
+      if (typeof migrationModule.up !== 'function') {
+        throw new Error(`Migration modules must export an 'up' function.`);
+      }
+      if (migrationModule.down !== undefined && typeof migrationModule.down !== 'function') {
+        throw new Error(`The 'down' export must be a function.`);
+      }
+
+      const appliesToEnvironment = !migrationModule.environments || migrationModule.environments.includes(this.context.environment);
+
+      return {
+        version,
+        name,
+        filePath,
+        table: migrationModule.table,
+        database: migrationModule.database,
+        querySettings: migrationModule.settings || {},
+        waitForMutations: migrationModule.waitForMutations,
+        up: appliesToEnvironment ? migrationModule.up : undefined,
+        down: appliesToEnvironment ? migrationModule.down : undefined,
+        source,
+      };
+    } catch (e: any) {
+      this.logger.error(chalk.bold.red(`❌  Error loading migration module ${filePath}:`), e.message);
+      return undefined;
+    }
+  }
+
+  // Require a migration module, accepting named exports as well as a default-exported object
+  private _requireMigrationModule(filePath: string): MigrationModule {
+    const loaded = requireModule(filePath);
+    return typeof loaded.up !== 'function' && loaded.default ? loaded.default : loaded;
+  }
+
+  private _createMigrationHelper(migration: MigrationFile, direction: 'up' | 'down', plannedStatements: string[] = []): MigrationHelper {
+    const settings = { ...(migration.querySettings || {}) };
+    return {
+      environment: this.context.environment,
+      cluster: this.context.cluster,
+      table: migration.table,
+      database: migration.database,
+      dryRun: !!this.context.dryRun,
+      settings,
+      exec: async (sql: string, execSettings?: Record<string, any>) => {
+        const formatted = formatSQL(this.logger, sql, migration.table, migration.database, this.context.cluster) || '';
+        if (this.context.dryRun) {
+          plannedStatements.push(...splitStatements(formatted));
+          return;
+        }
+        await this.db.executeMigration(formatted, { ...settings, ...execSettings }, {
+          waitForMutations: migration.waitForMutations,
+          onStatementComplete: this._statementListener(migration, direction),
+        });
+      },
+      query: <T = Record<string, any>>(sql: string, querySettings?: Record<string, any>) =>
+        this.db.query<T>(formatSQL(this.logger, sql, migration.table, migration.database, this.context.cluster) || '', querySettings),
+      log: (message: string) => this.logger.info(chalk.gray(`   ${message}`)),
+    };
+  }
+
+  // Record the timing of each statement of a migration as it succeeds and emit a migration:statement or rollback:statement event
+  private _statementListener(migration: MigrationFile, direction: 'up' | 'down') {
+    const event = direction === 'up' ? 'migration:statement' : 'rollback:statement';
+    return async (index: number, total: number, statement: string, timing: StatementTiming) => {
+      this.migrationStatements.push({ index, statement, ...timing });
+      this.logger.info(chalk.gray(`   ⏱  Statement ${index + 1}/${total} took ${formatDuration(timing.durationMs)}${timing.queryId ? ` (query_id: ${timing.queryId})` : ''}`));
+      this.emit(event, { version: migration.version, name: migration.name, index, total, statement, ...timing });
+    };
+  }
+
+  // Run the up or down function of a .ts/.js migration. In dry-run mode exec() does not run its SQL;
+  // the statements it would have executed are returned instead.
+  private async _runScriptMigration(migration: MigrationFile, fn: MigrationFunction, direction: 'up' | 'down'): Promise<string[]> {
+    if (!this.context.dryRun) {
+      this.logger.debug(chalk.gray(`--- ${direction.toUpperCase()} function (Env: `) + chalk.cyan(this.context.environment) + chalk.gray(`) from ${path.basename(migration.filePath)} ---`));
+    }
+    const plannedStatements: string[] = [];
+    await fn(this._createMigrationHelper(migration, direction, plannedStatements));
+    return plannedStatements;
+  }
+
+  // Stream a progress record to stdout in ndjson output mode
+  private _emit(record: Record<string, any>) {
+    if (this.context.output === 'ndjson') {
+      writeRecord(record);
+    }
+  }
+
+  // Prompts write to stdout, which would corrupt the JSON/NDJSON document there
+  private _ensureCanPrompt() {
+    if (isMachineOutput(this.context)) {
+      throw new ClicksuiteError('CONFIRMATION_REQUIRED', `This command needs confirmation, which cannot be asked for with --output ${this.context.output}. Re-run with --non-interactive (-y) to confirm automatically.`);
+    }
+  }
+
+  // Compare applied records against local files. Records without a stored checksum
+  // (applied by an older clicksuite version) cannot be verified and are ignored.
+  private _findChecksumMismatches(localMigrations: MigrationFile[], dbRecords: MigrationRecord[]): ChecksumMismatch[] {
+    const localMap = new Map(localMigrations.map(m => [m.version, m]));
+    const mismatches: ChecksumMismatch[] = [];
+    for (const record of dbRecords) {
+      if (record.active !== 1 || !record.checksum) continue;
+      const local = localMap.get(record.version);
+      // Databases that applied the squashed migrations hold the checksum of the one whose version the baseline took
+      if (!local || local.squashes) continue;
+      const localChecksum = migrationChecksum(local);
+      if (localChecksum !== record.checksum) {
+        mismatches.push({
+          version: record.version,
+          name: local.name,
+          filePath: local.filePath,
+          storedChecksum: record.checksum,
+          localChecksum,
+        });
+      }
+    }
+    return mismatches;
+  }
+
+  private _reportChecksumMismatches(mismatches: ChecksumMismatch[]) {
+    this.logger.warn(chalk.yellow.bold(`⚠️  ${mismatches.length} applied migration(s) were modified after being applied:`));
+    mismatches.forEach(m => {
+      this.logger.warn(chalk.yellow(`  ⚠️  ${m.version} - ${m.name} (${m.filePath})`));
+      this.logger.debug(chalk.dim(`     stored: ${m.storedChecksum}`));
+      this.logger.debug(chalk.dim(`     local:  ${m.localChecksum}`));
+    });
   }
 
   /**
    * Initialize the project by creating the migrations directory and the migrations table
    */
   async init() {
-    console.log(chalk.blue('⏳  Runner: Initializing Clicksuite environment...'));
+    this.logger.info(chalk.blue('⏳  Runner: Initializing Clicksuite environment...'));
     try {
       await this.db.initMigrationsTable();
       const pingResult = await this.db.ping();
       if (pingResult.success) {
-        console.log(chalk.green('✅  Successfully connected to ClickHouse.'));
+        this.logger.info(chalk.green('✅  Successfully connected to ClickHouse.'));
       } else {
-        console.error(chalk.bold.red('❌  Failed to connect to ClickHouse.'), pingResult.error);
+        this.logger.error(chalk.bold.red('❌  Failed to connect to ClickHouse.'), pingResult.error);
       }
-      console.log(chalk.green('✅  Clicksuite initialized successfully. Migration table is ready.'));
+      this.logger.info(chalk.green('✅  Clicksuite initialized successfully. Migration table is ready.'));
     } catch (error) {
-      console.error(chalk.bold.red('❌  Runner init failed:'), error);
+      this.logger.error(chalk.bold.red('❌  Runner init failed:'), error);
       throw error;
     }
   }
 
+  // Decide where to start a migration that failed part-way through a previous run.
+  // Returns the index of the first statement to execute.
+  private async _resolveResumePoint(migration: MigrationFile, statements: string[], steps: MigrationStepRecord[]): Promise<number> {
+    if (steps.length === 0) {
+      return 0;
+    }
+
+    const completed = countCompletedStatements(steps);
+    const resumable = completed > 0 && steps.every(step =>
+      Number(step.statement_count) === statements.length &&
+      statements[step.statement_index] !== undefined &&
+      statementChecksum(statements[step.statement_index]) === step.checksum
+    );
+
+    this.logger.warn(chalk.yellow(`⚠️  Migration ${migration.version} - ${migration.name} is partially applied: ${completed} of ${statements.length} statement(s) ran before a previous failure.`));
+    if (!resumable) {
+      this.logger.warn(chalk.yellow(`⚠️  Its SQL changed since then, so it cannot be resumed safely. Check the database state before restarting it.`));
+    }
+
+    let action: 'resume' | 'restart' | 'abort';
+    if (this.context.restartPartial) {
+      action = 'restart';
+    } else if (this.context.nonInteractive) {
+      if (!resumable) {
+        throw new ClicksuiteError('PARTIAL_MIGRATION', `Migration ${migration.version} is partially applied and its SQL changed. Re-run with --restart-partial to execute it from the first statement.`);
+      }
+      action = 'resume';
+    } else {
+      const choices = [
+        ...(resumable ? [{ name: `Resume from statement ${completed + 1}`, value: 'resume' }] : []),
+        { name: 'Restart from the first statement', value: 'restart' },
+        { name: 'Abort', value: 'abort' },
+      ];
+      this._ensureCanPrompt();
+      const answers = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: `How do you want to continue migration ${migration.version}?`,
+          choices,
+          default: choices[0].value,
+        },
+      ]);
+      action = answers.action;
+    }
+
+    if (action === 'abort') {
+      throw new ClicksuiteError('ABORTED', `Migration ${migration.version} is partially applied. Aborted by user.`, { version: migration.version });
+    }
+    if (action === 'restart') {
+      this.logger.info(chalk.yellow(`🔁  Restarting ${migration.version} from the first statement.`));
+      await this.db.clearMigrationSteps(migration.version);
+      return 0;
+    }
+    this.logger.info(chalk.yellow(`⏩  Resuming ${migration.version} from statement ${completed + 1} of ${statements.length}.`));
+    return completed;
+  }
+
+  // Hold the __clicksuite_lock advisory lock while running a command that changes the database.
+  // Dry runs change nothing and do not take the lock.
+  private async _withLock<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    if (this.context.dryRun) {
+      return fn();
+    }
+    const lock = new MigrationLock(this.db, this.context, operation);
+    await lock.acquire();
+    try {
+      return await fn();
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Forcefully release the migration lock, e.g. after a crashed deploy
+   * @returns The lock records that were held and those that were released
+   */
+  async unlock(): Promise<UnlockResult> {
+    await this.db.initLockTable();
+    const records = await this.db.getLockRecords();
+    const result: UnlockResult = { held: records, released: [], cancelled: false };
+    if (records.length === 0) {
+      return result;
+    }
+
+    records.forEach(record => {
+      const staleLabel = MigrationLock.isStale(record) ? chalk.gray(' (stale)') : '';
+      this.logger.info(chalk.yellow(`🔒  Held by ${record.operation} on ${record.host} (PID ${record.pid}) since ${record.acquired_at}`) + staleLabel);
+    });
+
+    const hasLiveHolder = records.some(record => !MigrationLock.isStale(record));
+    if (hasLiveHolder && !this.context.nonInteractive) {
+      this._ensureCanPrompt();
+      const answers = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmation',
+          message: 'The lock may still be in use. Releasing it can let two processes migrate at once. Release it anyway?',
+          default: false,
+        },
+      ]);
+      if (!answers.confirmation) {
+        result.cancelled = true;
+        return result;
+      }
+    }
+
+    result.released = await MigrationLock.forceRelease(this.db);
+    return result;
+  }
+
   /**
    * Generate a new migration file
    * @param name - The name of the migration
+   * @returns The path of the generated file
    */
-  async generate(migrationNameInput: string) {
+  async generate(migrationNameInput: string, format: 'yaml' | 'sql' | 'ts' = 'yaml'): Promise<string> {
     const timestamp = new Date().toISOString().replace(/[-:T.]/g, '').slice(0, 14);
     // Sanitize the migration name for the file name part
     const safeFileNamePart = migrationNameInput.replace(/\s+/g, '-').replace(/[^a-zA-Z0-9_-]/g, '').toLowerCase();
-    const filename = `${timestamp}_${safeFileNamePart}.yml`;
+    const filename = `${timestamp}_${safeFileNamePart}.${format === 'yaml' ? 'yml' : format}`;
     const filePath = path.join(this.context.migrationsDir, filename);
 
+    if (format === 'sql') {
+      const sqlString = `-- ${migrationNameInput}
+-- +clicksuite table: your_table_name
+-- +clicksuite database: your_database_name
+-- Optional directives:
+--   -- +clicksuite settings: max_execution_time=300
+--   -- +clicksuite environments: development, test, production
+
+-- +clicksuite Up
+CREATE TABLE {database}.{table}
+
+-- +clicksuite Down
+DROP TABLE IF EXISTS {database}.{table}
+`;
+      await this._writeGeneratedMigration(filePath, sqlString);
+      return filePath;
+    }
+
+    if (format === 'ts') {
+      const tsString = `// ${migrationNameInput}
+import type { MigrationHelper } from 'clicksuite';
+
+// Optional: used for {table} and {database} placeholders in exec() and query()
+export const table = 'your_table_name';
+export const database = 'your_database_name';
+
+// Optional: ClickHouse settings applied to every exec()
+export const settings = {};
+
+// Optional: restrict this migration to some environments
+// export const environments = ['development', 'test', 'production'];
+
+export async function up(ctx: MigrationHelper): Promise<void> {
+  await ctx.exec('CREATE TABLE {database}.{table}');
+}
+
+export async function down(ctx: MigrationHelper): Promise<void> {
+  await ctx.exec('DROP TABLE IF EXISTS {database}.{table}');
+}
+`;
+      await this._writeGeneratedMigration(filePath, tsString);
+      return filePath;
+    }
+
     const migrationContent = {
       version: timestamp,
       name: migrationNameInput, // Keep original name for display purposes inside YAML
@@ -217,18 +748,25 @@ production:
   #   -- SQL for production down (override)
 `;
 
+    await this._writeGeneratedMigration(filePath, yamlString);
+    return filePath;
+  }
+
+  private async _writeGeneratedMigration(filePath: string, content: string) {
     try {
       await fs.mkdir(this.context.migrationsDir, { recursive: true });
-      await fs.writeFile(filePath, yamlString);
-      console.log(chalk.green(`✅  Generated new migration file: ${filePath}`));
-      console.log(chalk.yellow('ℹ️  Please edit this file to add your environment-specific migration SQL and update the `table` field.'));
+      await fs.writeFile(filePath, content);
     } catch (e: any) {
-      console.error(chalk.bold.red(`❌  Error generating migration file ${filePath}:`), e.message);
+      throw new Error(`Error generating migration file ${filePath}: ${e.message}`);
     }
   }
 
-  async status() {
-    console.log(chalk.blue('🔍  Fetching migration status...'));
+  /**
+   * Get the state of every local and applied migration
+   * @returns The migrations, sorted by version
+   */
+  async status(): Promise<MigrationStatus[]> {
+    this.logger.info(chalk.blue('🔍  Fetching migration status...'));
     const localMigrations = await this._getLocalMigrations();
     const dbRecords = await this.db.getAllMigrationRecords();
 
@@ -237,10 +775,14 @@ production:
     const dbMap = new Map<string, MigrationRecord>();
     dbRecords.forEach(rec => dbMap.set(rec.version, rec));
 
+    const mismatchedVersions = new Set(this._findChecksumMismatches(localMigrations, dbRecords).map(m => m.version));
+    const stepsByVersion = groupStepsByVersion(await this.db.getMigrationSteps());
+
     for (const local of localMigrations) {
       const dbRec = dbMap.get(local.version);
       let state: MigrationState;
       let appliedAt: string | undefined;
+      let completedStatements: number | undefined;
 
       if (dbRec) {
         state = dbRec.active === 1 ? 'APPLIED' : 'INACTIVE';
@@ -249,10 +791,19 @@ production:
       } else {
         state = 'PENDING';
       }
-      statusList.push({ ...local, state, appliedAt });
+
+      const steps = stepsByVersion.get(local.version);
+      if (state !== 'APPLIED' && steps && steps.length > 0) {
+        state = 'PARTIAL';
+        completedStatements = countCompletedStatements(steps);
+      }
+      statusList.push({ ...local, state, appliedAt, completedStatements, checksumMismatch: mismatchedVersions.has(local.version) });
     }
 
+    // Records of migrations replaced by a baseline are expected to have no local file
+    const squashedVersions = new Set(localMigrations.flatMap(m => m.squashes || []));
     dbMap.forEach(dbRec => {
+      if (squashedVersions.has(dbRec.version)) return;
       statusList.push({
         version: dbRec.version,
         name: 'N/A (DB only. Likely a legacy migration file)',
@@ -264,189 +815,407 @@ production:
 
     statusList.sort((a, b) => a.version.localeCompare(b.version));
 
-    if (statusList.length === 0) {
-      console.log(chalk.yellow('ℹ️  No migrations found locally or in the database.'));
-      return;
+    return statusList;
+  }
+
+  /**
+   * Read the audit trail of apply and rollback attempts
+   * @param version - Only return the attempts for this migration version
+   * @returns The history records, oldest first
+   */
+  async history(version?: string): Promise<MigrationHistoryRecord[]> {
+    return this.db.getMigrationHistory(version);
+  }
+
+  /**
+   * Verify that applied migrations still match their local files
+   * @returns The applied migrations whose local file content changed since they were applied
+   */
+  async verify(): Promise<ChecksumMismatch[]> {
+    this.logger.info(chalk.blue(`🔍  Verifying applied migration checksums for environment '${this.context.environment}'...`));
+    const localMigrations = await this._getLocalMigrations();
+    const dbRecords = await this.db.getAllMigrationRecords();
+    const mismatches = this._findChecksumMismatches(localMigrations, dbRecords);
+
+    const unverified = dbRecords.filter(rec => rec.active === 1 && !rec.checksum).length;
+    if (unverified > 0) {
+      this.logger.info(chalk.gray(`ℹ️  ${unverified} applied migration(s) have no stored checksum (applied by an older clicksuite version) and were not verified.`));
     }
 
-    console.log(chalk.bold(`\nMigration Status (Env: ${this.context.environment}, Migrations DB: ${this.context.migrationsDatabase || 'default'}):`));
-    console.log(chalk.gray('-------------------------------------------------------------------------------------'));
-    statusList.forEach(s => {
-      let stateChalk = chalk.yellow;
-      if (s.state === 'APPLIED') stateChalk = chalk.green;
-      if (s.state === 'INACTIVE') stateChalk = chalk.gray;
-      
-      const nameDisplay = s.name === 'N/A (DB only)' ? chalk.italic(s.name) : s.name;
-      const dateDisplay = s.appliedAt ? chalk.dim(`(Applied: ${new Date(s.appliedAt).toLocaleString()})`) : '';
+    if (mismatches.length === 0) {
+      this.logger.info(chalk.green('✅  All applied migrations match their local files.'));
+    } else {
+      this._reportChecksumMismatches(mismatches);
+    }
+    return mismatches;
+  }
 
-      console.log(
-        `${stateChalk.bold(s.state.padEnd(10))}` +
-        `${chalk.cyan(s.version)} - ${nameDisplay} ${dateDisplay}`
-      );
-    });
-    console.log(chalk.gray('-------------------------------------------------------------------------------------'));
+  async migrate(): Promise<UpResult> {
+    this.logger.info(chalk.blue('⏳  Running pending migrations (migrate:up)...'));
+    return this.up();
   }
 
-  async migrate() {
-    console.log(chalk.blue('⏳  Running pending migrations (migrate:up)...'));
-    await this.up();
+  /**
+   * Apply pending migrations
+   * @param targetVersion - The last version to apply (default: every pending migration)
+   * @param options - only applies a single pending migration instead, e.g. one that landed out of order
+   * @returns The applied migrations, or the plan of a dry run
+   */
+  async up(targetVersion?: string, options: UpOptions = {}): Promise<UpResult> {
+    if (targetVersion && options.only) {
+      throw new Error('Use either a target version or --only, not both.');
+    }
+    return this._withLock('migrate:up', () => this._up(targetVersion, options));
   }
 
-  async up(targetVersion?: string) {
+  private async _up(targetVersion?: string, options: RunUpOptions = {}): Promise<UpResult> {
+    const { versions, updateSchemaFile = true } = options;
+    const commandStartedAt = Date.now();
+    const result: UpResult = { dryRun: !!this.context.dryRun, applied: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' } };
+    const finish = () => {
+      result.durationMs = Date.now() - commandStartedAt;
+      return result;
+    };
     const actionWord = this.context.dryRun ? 'Previewing' : 'Executing';
-    console.log(chalk.blue(`⏳ ${actionWord} UP migrations for environment '${this.context.environment}'... ${targetVersion ? 'Target: ' + targetVersion : 'All pending'}`));
+    this.logger.info(chalk.blue(`⏳ ${actionWord} UP migrations for environment '${this.context.environment}'... ${targetVersion ? 'Target: ' + targetVersion : 'All pending'}`));
     const localMigrations = await this._getLocalMigrations();
     const dbAppliedMigrations = await this.db.getAppliedMigrations();
     const appliedVersions = new Set(dbAppliedMigrations.map(m => m.version));
 
+    const mismatches = this._findChecksumMismatches(localMigrations, dbAppliedMigrations);
+    if (mismatches.length > 0) {
+      this._reportChecksumMismatches(mismatches);
+      if (this.context.failOnDrift) {
+        throw new ClicksuiteError('DRIFT_DETECTED', `Refusing to migrate: ${mismatches.length} applied migration(s) were modified after being applied. Run 'clicksuite migrate:verify' for details.`);
+      }
+    }
+
     const pendingMigrations = localMigrations
-      .filter(lm => !appliedVersions.has(lm.version))
+      .filter(lm => versions ? versions.includes(lm.version) : !appliedVersions.has(lm.version))
       .sort((a, b) => a.version.localeCompare(b.version));
 
+    // A version that is not pending is most likely a typo, which must not pass as "nothing to do"
+    if (options.only && !pendingMigrations.some(m => m.version === options.only)) {
+      throw new ClicksuiteError('VERSION_NOT_FOUND', `Version ${options.only} is not a pending migration.`, { version: options.only });
+    }
+
     if (pendingMigrations.length === 0) {
       const message = this.context.dryRun 
         ? 'No pending migrations to preview. Database is up-to-date.'
         : 'No pending migrations to apply. Database is up-to-date.';
-      console.log(chalk.green(`ℹ️  ${message}`));
-      return;
+      this.logger.info(chalk.green(`ℹ️  ${message}`));
+      return finish();
     }
 
     let migrationsToRun = pendingMigrations;
-    if (targetVersion) {
+    if (options.only) {
+      migrationsToRun = pendingMigrations.filter(m => m.version === options.only);
+    } else if (targetVersion) {
       const targetIdx = migrationsToRun.findIndex(m => m.version === targetVersion);
       if (targetIdx === -1) {
-        console.error(chalk.bold.red(`❌  Target version ${targetVersion} not found among pending or already applied (but not active).`));
-        return;
+        this.logger.error(chalk.bold.red(`❌  Target version ${targetVersion} not found among pending or already applied (but not active).`));
+        return finish();
       }
       migrationsToRun = migrationsToRun.slice(0, targetIdx + 1);
       if (migrationsToRun.length === 0) {
-        console.log(chalk.yellow(`ℹ️  Target version ${targetVersion} seems to be already applied or no prior pending migrations.`));
-        return;
+        this.logger.info(chalk.yellow(`ℹ️  Target version ${targetVersion} seems to be already applied or no prior pending migrations.`));
+        return finish();
       }
     }
 
-    if (this.context.dryRun) {
-      console.log(chalk.cyan(`🔍  DRY RUN: The following ${migrationsToRun.length} migration(s) would be applied:`));
-      migrationsToRun.forEach(m => {
-        console.log(chalk.cyan(`  ✅  ${m.version} - ${m.name}`));
-      });
-    } else {
-      console.log(chalk.yellow(`🔍  Found ${migrationsToRun.length} migration(s) to apply.`));
+    if (!versions) {
+      this._checkOutOfOrder(migrationsToRun, appliedVersions, !!options.only);
+    }
+
+    // A database either applied all migrations a baseline replaces (the baseline then shares the version of
+    // the last one and is not pending) or none of them. Running it on top of some would skip the others.
+    for (const baseline of migrationsToRun.filter(m => m.squashes)) {
+      const applied = baseline.squashes!.filter(version => appliedVersions.has(version));
+      if (applied.length > 0) {
+        throw new ClicksuiteError('SQUASH_CONFLICT', `Baseline ${baseline.version} replaces migrations of which this database applied only some (${applied.join(', ')}). Apply the archived migrations up to ${baseline.version} before using the baseline.`, { version: baseline.version });
+      }
+    }
+
+    const stepsByVersion = groupStepsByVersion(await this.db.getMigrationSteps());
+
+    if (!this.context.dryRun) {
+      this.logger.info(chalk.yellow(`🔍  Found ${migrationsToRun.length} migration(s) to apply.`));
     }
 
     for (const migration of migrationsToRun) {
-      const migrationTitle = this.context.dryRun 
-        ? `DRY RUN: Migration ${migration.version} - ${migration.name}` 
-        : `⏳  Applying migration: ${migration.version} - ${migration.name}`;
-      
-      console.log(chalk.magenta(`\n${migrationTitle}`));
-      
-      if (!migration.upSQL) {
-        const skipMessage = this.context.dryRun
-          ? `Would skip ${migration.version}: No 'up' SQL found for environment '${this.context.environment}'.`
-          : `⏭️  Skipping ${migration.version}: No 'up' SQL found for environment '${this.context.environment}'.`;
-        console.warn(chalk.yellow(skipMessage));
+      if (!migration.up && !migration.upSQL) {
+        this._recordSkipped(result.skipped, migration, `No 'up' SQL found for environment '${this.context.environment}'.`);
         continue;
       }
 
+      if (this.context.dryRun) {
+        const completedSteps = countCompletedStatements(stepsByVersion.get(migration.version) || []);
+        const statements = migration.up
+          ? await this._runScriptMigration(migration, migration.up, 'up')
+          : splitStatements(migration.upSQL!);
+        this._recordPlanned(result.planned, migration, statements, completedSteps > 0 ? completedSteps + 1 : undefined);
+        continue;
+      }
+
+      this.logger.info(chalk.magenta(`\n⏳  Applying migration: ${migration.version} - ${migration.name}`));
+      this.emit('migration:start', { version: migration.version, name: migration.name });
+      const startedAt = Date.now();
+      this.migrationStatements = [];
+
       try {
-        if (this.context.dryRun) {
-          console.log(chalk.cyan('┌─') + chalk.cyan(`─ DRY RUN: Migration ${migration.version} - ${migration.name} `).padEnd(70, '─') + chalk.cyan('─'));
-          console.log(chalk.cyan('│') + ` Environment: ${this.context.environment}`);
-          if (migration.database) console.log(chalk.cyan('│') + ` Database: ${migration.database}`);
-          if (migration.table) console.log(chalk.cyan('│') + ` Table: ${migration.table}`);
-          console.log(chalk.cyan('│') + ' ');
-          
-          // Count queries for display
-          const queryCount = migration.upSQL.split(';').filter(q => q.trim().length > 0).length;
-          const queryLabel = queryCount === 1 ? 'query' : 'queries';
-          console.log(chalk.cyan('│') + ` SQL to execute (${queryCount} ${queryLabel}):`);
-          
-          // Show each query indented
-          const queries = migration.upSQL.split(';').filter(q => q.trim().length > 0);
-          queries.forEach(query => {
-            console.log(chalk.cyan('│') + `   ${query.trim()};`);
-            if (queries.indexOf(query) < queries.length - 1) {
-              console.log(chalk.cyan('│') + '   ');
-            }
-          });
-          
-          console.log(chalk.cyan('└') + chalk.cyan('─'.repeat(70)));
+        if (migration.up) {
+          await this._runScriptMigration(migration, migration.up, 'up');
+          await this._verifyReplicas(migration, this.migrationStatements.map(run => run.statement));
+          await this.db.markMigrationApplied(migration.version, migrationChecksum(migration));
         } else {
-          if (this.context.verbose) {
-            console.log(chalk.gray('--- UP SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
-            console.log(chalk.gray(migration.upSQL.trim()));
-            console.log(chalk.gray('--------------'));
-            if (migration.table || migration.database) {
-                const details = [];
-                if (migration.database) details.push(`database: ${migration.database}`);
-                if (migration.table) details.push(`table: ${migration.table}`);
-                console.log(chalk.dim(`(Using ${details.join(', ')})`));
-            }
+          const upSQL = migration.upSQL!;
+          this.logger.debug(chalk.gray('--- UP SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
+          this.logger.debug(chalk.gray(upSQL.trim()));
+          this.logger.debug(chalk.gray('--------------'));
+          if (migration.table || migration.database) {
+            const details = [];
+            if (migration.database) details.push(`database: ${migration.database}`);
+            if (migration.table) details.push(`table: ${migration.table}`);
+            this.logger.debug(chalk.dim(`(Using ${details.join(', ')})`));
+          }
+          const statements = splitStatements(upSQL);
+          const startAt = await this._resolveResumePoint(migration, statements, stepsByVersion.get(migration.version) || []);
+          // Record per-statement progress so a multi-statement migration that fails part-way can be resumed
+          const trackProgress = statements.length > 1;
+          const emitStatement = this._statementListener(migration, 'up');
+          await this.db.executeMigration(upSQL, migration.querySettings, {
+            startAt,
+            waitForMutations: migration.waitForMutations,
+            onStatementComplete: async (index, total, statement, timing) => {
+              if (trackProgress) {
+                await this.db.markStatementApplied(migration.version, index, total, statementChecksum(statement));
+              }
+              await emitStatement(index, total, statement, timing);
+            },
+          });
+          // Statements skipped when resuming count too, since they may have failed on a replica
+          await this._verifyReplicas(migration, statements);
+          await this.db.markMigrationApplied(migration.version, migrationChecksum(migration));
+          if (trackProgress || startAt > 0) {
+            await this.db.clearMigrationSteps(migration.version);
           }
-          await this.db.executeMigration(migration.upSQL, migration.querySettings);
-          await this.db.markMigrationApplied(migration.version);
-          console.log(chalk.green(`✅  Successfully applied ${migration.version} - ${migration.name}`));
         }
+        const run = this._recordRun(result.applied, migration, startedAt, 'applied');
+        await this._recordHistory(migration, 'apply', startedAt);
+        this.logger.info(chalk.green(`✅  Successfully applied ${migration.version} - ${migration.name} in ${formatDuration(run.durationMs)}`));
       } catch (error: any) {
-        if (!this.context.dryRun) {
-          console.error(chalk.bold.red(`❌  Error applying migration ${migration.version} - ${migration.name}:`), error.message);
-          console.error(chalk.bold.red('❌  Migration process halted due to error.'));
-          throw error;
-        }
+        this.logger.error(chalk.bold.red(`❌  Error applying migration ${migration.version} - ${migration.name}:`), error.message);
+        this.logger.error(chalk.bold.red('❌  Migration process halted due to error.'));
+        const migrationError = toClicksuiteError(error, 'MIGRATION_FAILED', migration.version);
+        this.emit('migration:error', { version: migration.version, name: migration.name, error: migrationError });
+        await this._recordHistory(migration, 'apply', startedAt, migrationError);
+        throw migrationError;
       }
     }
-    
-    if (this.context.dryRun) {
-      console.log(chalk.cyan(`\n🔍  DRY RUN COMPLETE: ${migrationsToRun.length} migration(s) would be applied (no changes made)`));
-    } else {
-      console.log(chalk.greenBright('\n✅  All selected UP migrations applied successfully!'));
-      if (!this.context.skipSchemaUpdate) {
-        await this._updateSchemaFile();
-      }
+
+    if (!this.context.dryRun && !this.context.skipSchemaUpdate && updateSchemaFile) {
+      result.schemaUpdate = await this._updateSchemaFile();
+    }
+    return finish();
+  }
+
+  // An ON CLUSTER statement can fail on some replicas and still return, so with verifyReplicas the objects a migration
+  // worked on are compared across every replica before the migration is recorded
+  private async _verifyReplicas(migration: MigrationFile, statements: string[]) {
+    const cluster = this.context.cluster;
+    if (!this.context.verifyReplicas || !cluster) {
+      return;
+    }
+    const targets = new Map<string, DdlTarget>();
+    const addTarget = (target: DdlTarget) => targets.set(`${target.database ?? ''}.${target.name ?? ''}`, target);
+    if (migration.table || migration.database) {
+      addTarget({ database: migration.database, name: migration.table });
+    }
+    statements.flatMap(getDdlTargets).forEach(addTarget);
+    if (targets.size === 0) {
+      this.logger.debug(chalk.gray(`🔍 No tables to verify across the replicas of ${cluster} for ${migration.version}`));
+      return;
+    }
+
+    const { hosts, tables } = await this.db.getReplicaTables(Array.from(targets.values()));
+    const mismatches = findReplicaMismatches(hosts, tables);
+    if (mismatches.length > 0) {
+      const details = mismatches.map(mismatch => [
+        mismatch.missingOn.length > 0 ? `${mismatch.database}.${mismatch.name} is missing on ${mismatch.missingOn.join(', ')}` : '',
+        mismatch.differingOn.length > 0 ? `${mismatch.database}.${mismatch.name} differs on ${mismatch.differingOn.join(', ')}` : '',
+      ].filter(Boolean).join('; ')).join('; ');
+      throw new ClicksuiteError('REPLICA_MISMATCH', `The replicas of cluster ${cluster} are out of sync after ${migration.version}: ${details}.`, { version: migration.version });
+    }
+    this.logger.info(chalk.green(`   ✅ Verified ${targets.size} object(s) on ${hosts.length} replica(s) of ${cluster}`));
+  }
+
+  // Pending migrations older than the latest applied one usually come from a merged feature branch. A single one
+  // chosen with --only is applied even under the 'error' policy, since that is how they are meant to be resolved.
+  private _checkOutOfOrder(migrations: MigrationFile[], appliedVersions: Set<string>, chosen: boolean) {
+    const latestApplied = Array.from(appliedVersions).sort().pop();
+    const outOfOrder = latestApplied ? migrations.filter(m => m.version < latestApplied) : [];
+    const policy = this.context.outOfOrder || 'warn';
+    if (outOfOrder.length === 0 || policy === 'allow') {
+      return;
+    }
+    if (policy === 'error' && !chosen) {
+      throw new ClicksuiteError('OUT_OF_ORDER', `Refusing to migrate: ${outOfOrder.length} pending migration(s) are older than the latest applied migration ${latestApplied} (${outOfOrder.map(m => m.version).join(', ')}). Apply them with 'clicksuite migrate:up --only <version>' or set outOfOrder to 'warn' or 'allow'.`);
+    }
+    this.logger.warn(chalk.yellow(`⚠️  ${outOfOrder.length} pending migration(s) are older than the latest applied migration ${latestApplied} and will be applied out of order:`));
+    outOfOrder.forEach(m => this.logger.warn(chalk.yellow(`  - ${m.version} - ${m.name}`)));
+  }
+
+  private _recordRun(results: MigrationRunResult[], migration: MigrationFile, startedAt: number, action: 'applied' | 'rolled_back'): MigrationRunResult {
+    const run: MigrationRunResult = { version: migration.version, name: migration.name, durationMs: Date.now() - startedAt, statements: this.migrationStatements };
+    results.push(run);
+    this.emit(action === 'applied' ? 'migration:success' : 'rollback:success', run);
+    this._emit({ type: 'migration', action, ...run });
+    return run;
+  }
+
+  // Append an attempt to the migration history. Failing to record it only warns: the migration itself
+  // has already run, or failed with an error of its own that should not be masked.
+  private async _recordHistory(migration: MigrationFile, action: 'apply' | 'rollback', startedAt: number, error?: Error) {
+    this.auditMetadata = this.auditMetadata || getAuditMetadata(this.context.migrationsDir);
+    try {
+      await this.db.recordMigrationHistory({
+        version: migration.version,
+        name: migration.name,
+        action,
+        outcome: error ? 'failure' : 'success',
+        environment: this.context.environment,
+        ...this.auditMetadata,
+        duration_ms: Date.now() - startedAt,
+        statement_count: this.migrationStatements.length,
+        error: error ? redactSecrets(error.message, this.context) : '',
+      });
+    } catch (historyError: any) {
+      this.logger.warn(chalk.yellow(`⚠️  Could not record the ${action} of ${migration.version} in the migration history: ${historyError.message}`));
+    }
+  }
+
+  private _recordPlanned(planned: PlannedMigration[], migration: MigrationFile, statements: string[], resumeFrom?: number) {
+    const plan: PlannedMigration = {
+      version: migration.version,
+      name: migration.name,
+      filePath: migration.filePath,
+      database: migration.database,
+      table: migration.table,
+      statements: this.context.cluster && this.context.injectOnCluster
+        ? statements.map(statement => addOnCluster(statement, this.context.cluster!))
+        : statements,
+      resumeFrom,
+    };
+    planned.push(plan);
+    this._emit({ type: 'plan', ...plan });
+  }
+
+  private _recordSkipped(skipped: SkippedMigration[], migration: Pick<MigrationFile, 'version' | 'name'>, reason: string) {
+    const skip: SkippedMigration = { version: migration.version, name: migration.name, reason };
+    skipped.push(skip);
+    this._emit({ type: 'skip', ...skip });
+  }
+
+  /**
+   * Roll back migrations
+   * @param targetVersionToBecomeLatest - Roll back every migration applied after this version (default: only the last one)
+   * @param options - steps rolls back the last N applied migrations instead, only a single migration out of order
+   * @returns The rolled back migrations, or the plan of a dry run
+   */
+  async down(targetVersionToBecomeLatest?: string, options: DownOptions = {}): Promise<DownResult> {
+    if (options.steps !== undefined) {
+      this._checkSteps(options.steps);
     }
+    if ([targetVersionToBecomeLatest, options.steps, options.only].filter(value => value !== undefined).length > 1) {
+      throw new Error('Use only one of a target version, --steps or --only.');
+    }
+    return this._withLock('migrate:down', () => this._down(targetVersionToBecomeLatest, options));
   }
 
-  async down(targetVersionToBecomeLatest?: string) {
+  private _findOnlyRollback(version: string, appliedDbMigrations: MigrationRecord[], localMigrationsMap: Map<string, MigrationFile>): MigrationFile {
+    const actionWord = this.context.dryRun ? 'Previewing rollback of' : 'Attempting to roll back';
+    this.logger.info(chalk.blue(`🔍  ${actionWord} only migration ${version}...`));
+    // A version that is not applied is most likely a typo, which must not pass as "nothing to do"
+    if (!appliedDbMigrations.some(m => m.version === version)) {
+      throw new ClicksuiteError('VERSION_NOT_FOUND', `Version ${version} is not currently applied. Cannot roll it back.`, { version });
+    }
+    const migration = localMigrationsMap.get(version);
+    if (!migration) {
+      throw new ClicksuiteError('VERSION_NOT_FOUND', `Local migration file for version ${version} not found. Cannot roll back.`, { version });
+    }
+
+    // Later migrations that work on the same object may depend on this one
+    const related = appliedDbMigrations
+      .filter(m => m.version > version)
+      .map(m => localMigrationsMap.get(m.version))
+      .filter((later): later is MigrationFile => !!later && touchesSameObject(migration, later));
+    if (related.length > 0) {
+      this.logger.warn(chalk.yellow(`⚠️  ${related.length} later applied migration(s) also touch ${describeTarget(migration)} and may depend on ${version}:`));
+      related.forEach(m => this.logger.warn(chalk.yellow(`  - ${m.version} - ${m.name}`)));
+    }
+    return migration;
+  }
+
+  private _checkSteps(steps: number) {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`--steps must be a positive integer, got ${steps}.`);
+    }
+  }
+
+  private async _down(targetVersionToBecomeLatest?: string, options: DownOptions = {}, updateSchemaFile = true): Promise<DownResult> {
+    const commandStartedAt = Date.now();
+    const result: DownResult = { dryRun: !!this.context.dryRun, cancelled: false, rolledBack: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' } };
+    const finish = () => {
+      result.durationMs = Date.now() - commandStartedAt;
+      return result;
+    };
     const localMigrations = await this._getLocalMigrations();
     const localMigrationsMap = new Map(localMigrations.map(m => [m.version, m]));
     // Get all active migrations, sorted by version ascending (oldest first)
     const appliedDbMigrations = (await this.db.getAppliedMigrations())
       .sort((a, b) => a.version.localeCompare(b.version));
 
-    if (appliedDbMigrations.length === 0) {
-      console.log(chalk.yellow('ℹ️  No active migrations in the database to roll back.'));
-      return;
+    if (appliedDbMigrations.length === 0 && !options.only) {
+      this.logger.info(chalk.yellow('ℹ️  No active migrations in the database to roll back.'));
+      return finish();
     }
 
-    let migrationsToEffectivelyRollback: { version: string, name: string, downSQL?: string, querySettings?: Record<string,any>, table?: string, database?: string }[] = [];
+    let migrationsToEffectivelyRollback: MigrationFile[] = [];
 
-    if (!targetVersionToBecomeLatest) {
-      // Case 1: No target version specified - roll back the single last applied migration
-      const lastAppliedDbRecord = appliedDbMigrations[appliedDbMigrations.length - 1];
+    if (options.only) {
+      // Case 3: Roll back a single migration from the middle of the history, leaving later ones applied
+      migrationsToEffectivelyRollback.push(this._findOnlyRollback(options.only, appliedDbMigrations, localMigrationsMap));
+    } else if (!targetVersionToBecomeLatest) {
+      // Case 1: No target version specified - roll back the last applied migration, or the last N with steps (latest first)
+      const dbRecordsToRollback = appliedDbMigrations.slice(-(options.steps ?? 1)).reverse();
       const actionWord = this.context.dryRun ? 'Previewing rollback of' : 'Attempting to roll back';
-      console.log(chalk.blue(`🔍  No specific version provided. ${actionWord} the last applied migration: ${lastAppliedDbRecord.version}`));
-      const correspondingLocalFile = localMigrationsMap.get(lastAppliedDbRecord.version);
-      if (correspondingLocalFile) {
-        migrationsToEffectivelyRollback.push(correspondingLocalFile);
+      if (options.steps === undefined) {
+        this.logger.info(chalk.blue(`🔍  No specific version provided. ${actionWord} the last applied migration: ${dbRecordsToRollback[0].version}`));
       } else {
-        console.error(chalk.bold.red(`❌  Local migration file for version ${lastAppliedDbRecord.version} not found. Cannot roll back.`));
-        return;
+        this.logger.info(chalk.blue(`🔍  ${actionWord} the last ${dbRecordsToRollback.length} applied migration(s): ${dbRecordsToRollback.map(m => m.version).join(', ')}`));
+      }
+      for (const dbRec of dbRecordsToRollback) {
+        const correspondingLocalFile = localMigrationsMap.get(dbRec.version);
+        if (!correspondingLocalFile) {
+          this.logger.error(chalk.bold.red(`❌  Local migration file for version ${dbRec.version} not found. Cannot roll back.`));
+          return finish();
+        }
+        migrationsToEffectivelyRollback.push(correspondingLocalFile);
       }
     } else {
       // Case 2: Target version specified - roll back all migrations *after* this version
       const actionWord = this.context.dryRun ? 'Previewing rollback of migrations' : 'Attempting to roll back migrations';
-      console.log(chalk.blue(`🔍  ${actionWord} until version ${targetVersionToBecomeLatest} is the latest applied (or only one if it's the target)...`));
+      this.logger.info(chalk.blue(`🔍  ${actionWord} until version ${targetVersionToBecomeLatest} is the latest applied (or only one if it's the target)...`));
 
       const targetIndexInApplied = appliedDbMigrations.findIndex(m => m.version === targetVersionToBecomeLatest);
 
       if (targetIndexInApplied === -1) {
-        console.error(chalk.bold.red(`❌ Target version ${targetVersionToBecomeLatest} is not currently applied. Cannot roll back to this state.`));
+        this.logger.error(chalk.bold.red(`❌ Target version ${targetVersionToBecomeLatest} is not currently applied. Cannot roll back to this state.`));
         // Further check: does this version even exist locally?
         if (!localMigrationsMap.has(targetVersionToBecomeLatest)){
-            console.error(chalk.bold.red(`❌ Additionally, version ${targetVersionToBecomeLatest} does not exist in local migration files.`));
+            this.logger.error(chalk.bold.red(`❌ Additionally, version ${targetVersionToBecomeLatest} does not exist in local migration files.`));
         }
-        return;
+        return finish();
       }
 
       // Migrations to roll back are those applied *after* the targetVersionToBecomeLatest
@@ -455,8 +1224,8 @@ production:
       const dbRecordsToRollback = appliedDbMigrations.slice(targetIndexInApplied + 1).reverse();
       
       if (dbRecordsToRollback.length === 0) {
-        console.log(chalk.green(`✅ Version ${targetVersionToBecomeLatest} is already the latest applied migration or no migrations were applied after it. No rollback needed.`));
-        return;
+        this.logger.info(chalk.green(`✅ Version ${targetVersionToBecomeLatest} is already the latest applied migration or no migrations were applied after it. No rollback needed.`));
+        return finish();
       }
 
       for (const dbRec of dbRecordsToRollback) {
@@ -464,24 +1233,22 @@ production:
           if (localFile) {
               migrationsToEffectivelyRollback.push(localFile);
           } else {
-              console.warn(chalk.yellow(`⚠️ Local migration file for version ${dbRec.version} (which is applied in DB) not found. Cannot automatically roll it back.`));
+              this.logger.warn(chalk.yellow(`⚠️ Local migration file for version ${dbRec.version} (which is applied in DB) not found. Cannot automatically roll it back.`));
           }
       }
     }
 
     if (migrationsToEffectivelyRollback.length === 0) {
-      console.log(chalk.yellow('ℹ️ No migrations selected for rollback operation.'));
-      return;
+      this.logger.info(chalk.yellow('ℹ️ No migrations selected for rollback operation.'));
+      return finish();
     }
 
-    if (this.context.dryRun) {
-      console.log(chalk.cyan(`🔍 DRY RUN: The following ${migrationsToEffectivelyRollback.length} migration(s) would be rolled back (in order):`));
-      migrationsToEffectivelyRollback.forEach(m => console.log(chalk.cyan(`  ✅ ${m.version} - ${m.name}`)));
-    } else {
-      console.log(chalk.magenta(`⏳ The following ${migrationsToEffectivelyRollback.length} migration(s) will be rolled back (in order):`));
-      migrationsToEffectivelyRollback.forEach(m => console.log(chalk.magenta(`  ⏳ ${m.version} - ${m.name}`)));
+    if (!this.context.dryRun) {
+      this.logger.info(chalk.magenta(`⏳ The following ${migrationsToEffectivelyRollback.length} migration(s) will be rolled back (in order):`));
+      migrationsToEffectivelyRollback.forEach(m => this.logger.info(chalk.magenta(`  ⏳ ${m.version} - ${m.name}`)));
 
       if (!this.context.nonInteractive) {
+        this._ensureCanPrompt();
         const answers = await inquirer.prompt([
           {
             type: 'confirm',
@@ -491,89 +1258,117 @@ production:
           },
         ]);
         if (!answers.confirmation) {
-          console.log(chalk.gray('ℹ️ Rollback cancelled by user.'));
-          return;
+          this.logger.info(chalk.gray('ℹ️ Rollback cancelled by user.'));
+          result.cancelled = true;
+          return finish();
         }
       }
     }
 
     for (const migration of migrationsToEffectivelyRollback) {
-      const migrationTitle = this.context.dryRun 
-        ? `DRY RUN: Rolling back ${migration.version} - ${migration.name}` 
-        : `⏳ Rolling back migration: ${migration.version} - ${migration.name}`;
-      
-      console.log(chalk.magenta(`\n${migrationTitle}`));
-      
-      if (!migration.downSQL) {
-        const skipMessage = this.context.dryRun
-          ? `Would skip ${migration.version}: No 'down' SQL found for environment '${this.context.environment}'.`
-          : `⏭️ Skipping ${migration.version}: No 'down' SQL found for environment '${this.context.environment}'.`;
-        console.warn(chalk.yellow(skipMessage));
+      if (!migration.down && !migration.downSQL) {
+        this._recordSkipped(result.skipped, migration, `No 'down' SQL found for environment '${this.context.environment}'.`);
         continue; // Or halt, depending on desired strictness
       }
 
+      if (this.context.dryRun) {
+        const statements = migration.down
+          ? await this._runScriptMigration(migration, migration.down, 'down')
+          : splitStatements(migration.downSQL!);
+        this._recordPlanned(result.planned, migration, statements);
+        continue;
+      }
+
+      this.logger.info(chalk.magenta(`\n⏳ Rolling back migration: ${migration.version} - ${migration.name}`));
+      this.emit('rollback:start', { version: migration.version, name: migration.name });
+      const startedAt = Date.now();
+      this.migrationStatements = [];
+
       try {
-        if (this.context.dryRun) {
-          console.log(chalk.cyan('┌─') + chalk.cyan(`─ DRY RUN: Rollback ${migration.version} - ${migration.name} `).padEnd(70, '─') + chalk.cyan('─'));
-          console.log(chalk.cyan('│') + ` Environment: ${this.context.environment}`);
-          if (migration.database) console.log(chalk.cyan('│') + ` Database: ${migration.database}`);
-          if (migration.table) console.log(chalk.cyan('│') + ` Table: ${migration.table}`);
-          console.log(chalk.cyan('│') + ' ');
-          
-          // Count queries for display
-          const queryCount = migration.downSQL.split(';').filter(q => q.trim().length > 0).length;
-          const queryLabel = queryCount === 1 ? 'query' : 'queries';
-          console.log(chalk.cyan('│') + ` SQL to execute (${queryCount} ${queryLabel}):`);
-          
-          // Show each query indented
-          const queries = migration.downSQL.split(';').filter(q => q.trim().length > 0);
-          queries.forEach(query => {
-            console.log(chalk.cyan('│') + `   ${query.trim()};`);
-            if (queries.indexOf(query) < queries.length - 1) {
-              console.log(chalk.cyan('│') + '   ');
-            }
-          });
-          
-          console.log(chalk.cyan('└') + chalk.cyan('─'.repeat(70)));
+        if (migration.down) {
+          await this._runScriptMigration(migration, migration.down, 'down');
         } else {
-          if (this.context.verbose) {
-            console.log(chalk.gray('--- DOWN SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
-            console.log(chalk.gray(migration.downSQL.trim()));
-            console.log(chalk.gray('----------------'));
-            if (migration.table || migration.database) {
-              const details = [];
-              if (migration.database) details.push(`database: ${migration.database}`);
-              if (migration.table) details.push(`table: ${migration.table}`);
-              console.log(chalk.dim(`(Using ${details.join(', ')})`));
-            }
+          const downSQL = migration.downSQL!;
+          this.logger.debug(chalk.gray('--- DOWN SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
+          this.logger.debug(chalk.gray(downSQL.trim()));
+          this.logger.debug(chalk.gray('----------------'));
+          if (migration.table || migration.database) {
+            const details = [];
+            if (migration.database) details.push(`database: ${migration.database}`);
+            if (migration.table) details.push(`table: ${migration.table}`);
+            this.logger.debug(chalk.dim(`(Using ${details.join(', ')})`));
           }
-          await this.db.executeMigration(migration.downSQL, migration.querySettings);
-          await this.db.markMigrationRolledBack(migration.version);
-          console.log(chalk.green(`✅ Successfully rolled back ${migration.version} - ${migration.name}`));
+          await this.db.executeMigration(downSQL, migration.querySettings, {
+            waitForMutations: migration.waitForMutations,
+            onStatementComplete: this._statementListener(migration, 'down'),
+          });
         }
+        await this._verifyReplicas(migration, this.migrationStatements.map(run => run.statement));
+        await this.db.markMigrationRolledBack(migration.version);
+        const run = this._recordRun(result.rolledBack, migration, startedAt, 'rolled_back');
+        await this._recordHistory(migration, 'rollback', startedAt);
+        this.logger.info(chalk.green(`✅ Successfully rolled back ${migration.version} - ${migration.name} in ${formatDuration(run.durationMs)}`));
       } catch (error: any) {
-        if (!this.context.dryRun) {
-          console.error(chalk.bold.red(`❌ Error rolling back migration ${migration.version} - ${migration.name}:`), error.message);
-          console.error(chalk.bold.red('Rollback process halted due to error.'));
-          throw error; // Re-throw to stop further rollbacks on error
-        }
+        this.logger.error(chalk.bold.red(`❌ Error rolling back migration ${migration.version} - ${migration.name}:`), error.message);
+        this.logger.error(chalk.bold.red('Rollback process halted due to error.'));
+        const rollbackError = toClicksuiteError(error, 'ROLLBACK_FAILED', migration.version);
+        this.emit('rollback:error', { version: migration.version, name: migration.name, error: rollbackError });
+        await this._recordHistory(migration, 'rollback', startedAt, rollbackError);
+        throw rollbackError; // Re-throw to stop further rollbacks on error
       }
     }
-    
-    if (this.context.dryRun) {
-      console.log(chalk.cyan(`\n🔍 DRY RUN COMPLETE: ${migrationsToEffectivelyRollback.length} migration(s) would be rolled back (no changes made)`));
-    } else {
-      console.log(chalk.greenBright('\n✅ Selected DOWN migrations completed successfully!'));
-      if (!this.context.skipSchemaUpdate) {
-        await this._updateSchemaFile();
+
+    if (!this.context.dryRun && !this.context.skipSchemaUpdate && updateSchemaFile) {
+      result.schemaUpdate = await this._updateSchemaFile();
+    }
+    return finish();
+  }
+
+  /**
+   * Roll back the last applied migrations and apply them again, e.g. while iterating on a migration locally
+   * @param steps - The number of migrations to redo (default: 1)
+   * @returns The rollback and the re-applied migrations, or the plans of a dry run
+   */
+  async redo(steps = 1): Promise<RedoResult> {
+    this._checkSteps(steps);
+    return this._withLock('migrate:redo', () => this._redo(steps));
+  }
+
+  private async _redo(steps: number): Promise<RedoResult> {
+    const commandStartedAt = Date.now();
+    const down = await this._down(undefined, { steps }, false);
+    const result: RedoResult = {
+      dryRun: !!this.context.dryRun,
+      cancelled: down.cancelled,
+      down,
+      up: { dryRun: !!this.context.dryRun, applied: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' } },
+      durationMs: 0,
+      schemaUpdate: { status: 'skipped' },
+    };
+
+    // A dry run rolls nothing back, so its preview re-applies the migrations it would roll back
+    const versions = (this.context.dryRun ? down.planned : down.rolledBack).map(m => m.version);
+    if (!down.cancelled && versions.length > 0) {
+      result.up = await this._up(undefined, { versions, updateSchemaFile: false });
+      if (!this.context.dryRun && !this.context.skipSchemaUpdate) {
+        result.schemaUpdate = await this._updateSchemaFile();
       }
     }
+    result.durationMs = Date.now() - commandStartedAt;
+    return result;
   }
 
-  async reset() {
-    console.warn(chalk.yellow.bold('⚠️ WARNING: This will roll back all applied migrations and clear the migrations table.'));
+  async reset(): Promise<ResetResult> {
+    return this._withLock('migrate:reset', () => this._reset());
+  }
+
+  private async _reset(): Promise<ResetResult> {
+    const commandStartedAt = Date.now();
+    const result: ResetResult = { cancelled: false, rolledBack: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' } };
+    this.logger.warn(chalk.yellow.bold('⚠️ WARNING: This will roll back all applied migrations and clear the migrations table.'));
     let proceed = this.context.nonInteractive;
     if (!proceed) {
+      this._ensureCanPrompt();
       const answers = await inquirer.prompt([
         {
           type: 'confirm',
@@ -586,68 +1381,195 @@ production:
     }
 
     if (!proceed) {
-      console.log(chalk.gray('ℹ️ Migration reset cancelled by user.'));
-      return;
+      this.logger.info(chalk.gray('ℹ️ Migration reset cancelled by user.'));
+      result.cancelled = true;
+      result.durationMs = Date.now() - commandStartedAt;
+      return result;
     }
 
-    console.log(chalk.blue('⏳ Starting migration reset...'));
+    this.logger.info(chalk.blue('⏳ Starting migration reset...'));
     const appliedDbMigrations = (await this.db.getAppliedMigrations()).sort((a,b) => b.version.localeCompare(a.version));
     const localMigrations = await this._getLocalMigrations();
     const localMigrationsMap = new Map(localMigrations.map(m => [m.version, m]));
 
     if (appliedDbMigrations.length === 0) {
-      console.log(chalk.yellow('ℹ️ No applied migrations found in the database to roll back.'));
+      this.logger.info(chalk.yellow('ℹ️ No applied migrations found in the database to roll back.'));
     } else {
-      console.log(chalk.magenta(`🔍 Found ${appliedDbMigrations.length} applied migration(s) to roll back.`));
+      this.logger.info(chalk.magenta(`🔍 Found ${appliedDbMigrations.length} applied migration(s) to roll back.`));
       for (const dbMigration of appliedDbMigrations) {
-        console.log(chalk.blue(`\n⏳ Rolling back: ${dbMigration.version}`));
         const localFile = localMigrationsMap.get(dbMigration.version);
-        if (!localFile || !localFile.downSQL) {
-          console.warn(chalk.yellow(` ⏭️ Skipping rollback of ${dbMigration.version}: No local file or downSQL found for env '${this.context.environment}'.`));
+        if (!localFile || (!localFile.downSQL && !localFile.down)) {
+          this._recordSkipped(result.skipped, { version: dbMigration.version, name: localFile?.name || 'N/A' }, `No local file or downSQL found for env '${this.context.environment}'.`);
           continue;
         }
+        this.logger.info(chalk.blue(`\n⏳ Rolling back: ${dbMigration.version}`));
+        this.emit('rollback:start', { version: localFile.version, name: localFile.name });
+        const startedAt = Date.now();
+        this.migrationStatements = [];
         try {
-          if (this.context.verbose) {
-            console.log(chalk.gray('  --- DOWN SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
-            console.log(chalk.gray(`  ${localFile.downSQL.trim().split('\n').join('\n  ')}`));
-            console.log(chalk.gray('  ----------------'));
-             if (localFile.table || localFile.database) {
+          if (localFile.down) {
+            await this._runScriptMigration(localFile, localFile.down, 'down');
+          } else if (localFile.downSQL) {
+            this.logger.debug(chalk.gray('  --- DOWN SQL (Env: ') + chalk.cyan(this.context.environment) + chalk.gray(') ---'));
+            this.logger.debug(chalk.gray(`  ${localFile.downSQL.trim().split('\n').join('\n  ')}`));
+            this.logger.debug(chalk.gray('  ----------------'));
+            if (localFile.table || localFile.database) {
               const details = [];
               if (localFile.database) details.push(`database: ${localFile.database}`);
               if (localFile.table) details.push(`table: ${localFile.table}`);
-              console.log(chalk.dim(`  (Using ${details.join(', ')})`));
+              this.logger.debug(chalk.dim(`  (Using ${details.join(', ')})`));
             }
+            await this.db.executeMigration(localFile.downSQL, localFile.querySettings, {
+              waitForMutations: localFile.waitForMutations,
+              onStatementComplete: this._statementListener(localFile, 'down'),
+            });
           }
-          await this.db.executeMigration(localFile.downSQL, localFile.querySettings);
+          this._recordRun(result.rolledBack, localFile, startedAt, 'rolled_back');
+          await this._recordHistory(localFile, 'rollback', startedAt);
         } catch (error: any) {
-          console.error(chalk.bold.red(`  ❌ Error executing downSQL for migration ${dbMigration.version}:`), error.message);
-          console.error(chalk.bold.red('  Reset process halted due to error. Some migrations may remain in the database. Manual cleanup might be required.'));
-          throw error;
+          this.logger.error(chalk.bold.red(`  ❌ Error executing downSQL for migration ${dbMigration.version}:`), error.message);
+          this.logger.error(chalk.bold.red('  Reset process halted due to error. Some migrations may remain in the database. Manual cleanup might be required.'));
+          const rollbackError = toClicksuiteError(error, 'ROLLBACK_FAILED', dbMigration.version);
+          this.emit('rollback:error', { version: localFile.version, name: localFile.name, error: rollbackError });
+          await this._recordHistory(localFile, 'rollback', startedAt, rollbackError);
+          throw rollbackError;
         }
       }
     }
 
     try {
-      console.log(chalk.blue('\n⏳ Clearing the __clicksuite_migrations table...'));
+      this.logger.info(chalk.blue('\n⏳ Clearing the __clicksuite_migrations table...'));
       await this.db.clearMigrationsTable();
+      await this.db.clearMigrationSteps();
       await this.db.optimizeMigrationTable();
-      console.log(chalk.greenBright('\n✅ Database migrations have been reset successfully!'));
       if (!this.context.skipSchemaUpdate) {
-        await this._updateSchemaFile();
+        result.schemaUpdate = await this._updateSchemaFile();
       }
     } catch (error: any) {
-      console.error(chalk.bold.red('❌ Error clearing or optimizing migrations table during reset:'), error.message);
+      this.logger.error(chalk.bold.red('❌ Error clearing or optimizing migrations table during reset:'), error.message);
       throw error;
     }
+    result.durationMs = Date.now() - commandStartedAt;
+    return result;
+  }
+
+  /**
+   * Replace local migrations with one baseline migration generated from the live database schema.
+   * The baseline takes the version of the last squashed migration, so databases that applied the
+   * squashed migrations count it as applied, while fresh databases run only the baseline.
+   * @param untilVersion - The last version to squash (default: every local migration)
+   * @returns The baseline, the versions it replaces and the files moved to the archive directory
+   */
+  async squash(untilVersion?: string): Promise<SquashResult> {
+    return this._withLock('migrate:squash', () => this._squash(untilVersion));
   }
 
-  private async _updateSchemaFile() {
-    const schemaPath = path.join(this.context.migrationsDir, 'schema.sql');
+  private async _squash(untilVersion?: string): Promise<SquashResult> {
+    const result: SquashResult = { dryRun: !!this.context.dryRun, cancelled: false, squashed: [], archived: [], objects: [] };
+    this.logger.info(chalk.blue(`⏳ Squashing migrations for environment '${this.context.environment}'... ${untilVersion ? 'Until: ' + untilVersion : 'All local migrations'}`));
+    const localMigrations = await this._getLocalMigrations();
+    if (untilVersion && !localMigrations.some(m => m.version === untilVersion)) {
+      throw new Error(`Version ${untilVersion} not found among local migrations.`);
+    }
+    const migrationsToSquash = localMigrations.filter(m => !untilVersion || m.version <= untilVersion);
+    if (migrationsToSquash.length === 0) {
+      this.logger.info(chalk.yellow('ℹ️ No local migrations to squash.'));
+      return result;
+    }
+    const lastVersion = migrationsToSquash[migrationsToSquash.length - 1].version;
+
+    // The baseline is generated from the live schema, which must contain the changes of exactly the squashed migrations
+    const appliedVersions = new Set((await this.db.getAppliedMigrations()).map(m => m.version));
+    const notApplied = migrationsToSquash.filter(m => !appliedVersions.has(m.version)).map(m => m.version);
+    if (notApplied.length > 0) {
+      throw new ClicksuiteError('SQUASH_CONFLICT', `Cannot squash: ${notApplied.length} migration(s) are not applied to this database (${notApplied.join(', ')}). Apply them first so the baseline includes their changes.`);
+    }
+    const appliedAfter = localMigrations.filter(m => m.version > lastVersion && appliedVersions.has(m.version)).map(m => m.version);
+    if (appliedAfter.length > 0) {
+      throw new ClicksuiteError('SQUASH_CONFLICT', `Cannot squash until ${lastVersion}: later migration(s) are applied to this database (${appliedAfter.join(', ')}), so its schema includes their changes.`);
+    }
+
+    const schema = await this.db.getDatabaseSchema();
+    const keys = orderSchemaObjects(schema).filter(key => !CLICKSUITE_OBJECT_REGEX.test(key));
+    const databases = Array.from(new Set(keys.map(key => splitSchemaKey(key).database)));
+    // {on_cluster} rather than this environment's cluster, since every environment runs the baseline
+    const upStatements = [
+      ...databases.map(database => `CREATE DATABASE IF NOT EXISTS ${database} {on_cluster}`),
+      ...keys.map(key => addOnClusterPlaceholder(toCreateIfNotExists(normalizeStatement(schema[key])))),
+    ];
+    const downStatements = keys.slice().reverse().map(key => {
+      const { type, name } = splitSchemaKey(key);
+      return `DROP ${DROP_KEYWORDS[type]} IF EXISTS ${name} {on_cluster}`;
+    });
+
+    result.version = lastVersion;
+    // Squashing a baseline again carries over the versions it replaced
+    result.squashed = Array.from(new Set(migrationsToSquash.flatMap(m => [m.version, ...(m.squashes || [])]))).sort();
+    result.objects = keys;
+    result.baselinePath = path.join(this.context.migrationsDir, `${lastVersion}_baseline.yml`);
+
+    const archiveDir = path.join(this.context.migrationsDir, 'archive');
+    const squashedVersions = new Set(migrationsToSquash.map(m => m.version));
+    const files = (await fs.readdir(this.context.migrationsDir)).filter(file => {
+      const match = file.match(MIGRATION_FILE_REGEX) || file.match(SQL_MIGRATION_FILE_REGEX) || file.match(SCRIPT_MIGRATION_FILE_REGEX);
+      return !!match && squashedVersions.has(match[1]);
+    }).sort();
+    result.archived = files.map(file => path.join(archiveDir, file));
+
+    if (this.context.dryRun) {
+      return result;
+    }
+
+    if (!this.context.nonInteractive) {
+      this._ensureCanPrompt();
+      const answers = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmation',
+          message: `Squash ${migrationsToSquash.length} migration(s) into ${path.basename(result.baselinePath)} and move their files to ${archiveDir}?`,
+          default: false,
+        },
+      ]);
+      if (!answers.confirmation) {
+        this.logger.info(chalk.gray('ℹ️ Squash cancelled by user.'));
+        result.cancelled = true;
+        return result;
+      }
+    }
+
+    await fs.mkdir(archiveDir, { recursive: true });
+    for (const file of files) {
+      await fs.rename(path.join(this.context.migrationsDir, file), path.join(archiveDir, file));
+    }
+
+    const baselineContent = `# Baseline generated by 'clicksuite migrate:squash' on ${new Date().toISOString()} from the '${this.context.environment}' environment.
+# It replaces the migrations listed under 'squashes', which were moved to ${path.relative(this.context.migrationsDir, archiveDir)}/.
+# Databases that applied them count this baseline as applied; fresh databases run only this baseline.
+# Every environment without its own section runs the development section.
+version: "${lastVersion}"
+name: "baseline"
+squashes:
+${result.squashed.map(version => `  - "${version}"`).join('\n')}
+
+development: &baseline
+  up: ${yamlBlock(upStatements.map(statement => `${statement};`).join('\n\n'))}
+  down: ${yamlBlock(downStatements.map(statement => `${statement};`).join('\n'))}
+${this.context.environment !== 'development' ? `\n${this.context.environment}:\n  <<: *baseline\n` : ''}`;
+    await this._writeGeneratedMigration(result.baselinePath, baselineContent);
+    this.logger.info(chalk.green(`✅ Wrote baseline ${result.baselinePath}`));
+    return result;
+  }
+
+  // schema.sql, or the schema directory in the 'directory' layout
+  private _schemaPath(): string {
+    return path.join(this.context.migrationsDir, this.context.schema?.layout === 'directory' ? 'schema' : 'schema.sql');
+  }
+
+  private async _updateSchemaFile(): Promise<SchemaUpdateResult> {
+    const schemaPath = this._schemaPath();
     
     try {
-      if (this.context.verbose) {
-        console.log(chalk.dim(`🔍 Updating schema file for all databases (excluding system databases)`));
-      }
+      this.logger.debug(chalk.dim(`🔍 Updating schema file for all databases (excluding system databases)`));
       
       // Use the existing getDatabaseSchema method which already handles all the logic
       const schema = await this.db.getDatabaseSchema();
@@ -657,7 +1579,13 @@ production:
         const allTables = await this.db.getDatabaseTables();
         const allViews = await this.db.getDatabaseMaterializedViews();
         const allDictionaries = await this.db.getDatabaseDictionaries();
-        console.log(chalk.dim(`🔍 Found ${allTables.length} tables, ${allViews.length} views, ${allDictionaries.length} dictionaries across all databases`));
+        this.logger.debug(chalk.dim(`🔍 Found ${allTables.length} tables, ${allViews.length} views, ${allDictionaries.length} dictionaries across all databases`));
+      }
+
+      if (this.context.schema?.layout === 'directory') {
+        await this._writeSchemaDirectory(schemaPath, schema);
+        this.emit('schema:updated', { path: schemaPath });
+        return { status: 'updated', path: schemaPath };
       }
       
       // Get unique database names from schema keys
@@ -671,16 +1599,16 @@ production:
       
       let schemaContent = `-- Auto-generated schema file
 -- This file contains table definitions, materialized view definitions, and dictionary definitions
--- Generated on: ${new Date().toISOString()}
 -- Environment: ${this.context.environment}
 -- Databases: ${Array.from(uniqueDatabases).sort().join(', ')}
 
 `;
 
-      // Group schema entries by type
-      const tables = Object.entries(schema).filter(([key]) => key.startsWith('table/'));
-      const views = Object.entries(schema).filter(([key]) => key.startsWith('view/'));
-      const dictionaries = Object.entries(schema).filter(([key]) => key.startsWith('dictionary/'));
+      // Group schema entries by type, sorted by name so that the file only changes when the schema does
+      const entries = Object.entries(schema).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      const tables = entries.filter(([key]) => key.startsWith('table/'));
+      const views = entries.filter(([key]) => key.startsWith('view/'));
+      const dictionaries = entries.filter(([key]) => key.startsWith('dictionary/'));
 
       // Add table definitions
       if (tables.length > 0) {
@@ -688,13 +1616,7 @@ production:
         schemaContent += '-- TABLES\n';
         schemaContent += '-- =====================================================\n';
         for (const [key, createStatement] of tables) {
-          const objectName = key.replace('table/', '');
-          schemaContent += `\n-- Table: ${objectName}\n`;
-          schemaContent += createStatement;
-          if (!createStatement.endsWith(';')) {
-            schemaContent += ';';
-          }
-          schemaContent += '\n\n';
+          schemaContent += `\n${formatSchemaObject(key, createStatement)}\n`;
         }
       }
 
@@ -704,13 +1626,7 @@ production:
         schemaContent += '-- MATERIALIZED VIEWS\n';
         schemaContent += '-- =====================================================\n';
         for (const [key, createStatement] of views) {
-          const objectName = key.replace('view/', '');
-          schemaContent += `\n-- Materialized View: ${objectName}\n`;
-          schemaContent += createStatement;
-          if (!createStatement.endsWith(';')) {
-            schemaContent += ';';
-          }
-          schemaContent += '\n\n';
+          schemaContent += `\n${formatSchemaObject(key, createStatement)}\n`;
         }
       }
 
@@ -720,70 +1636,174 @@ production:
         schemaContent += '-- DICTIONARIES\n';
         schemaContent += '-- =====================================================\n';
         for (const [key, createStatement] of dictionaries) {
-          const objectName = key.replace('dictionary/', '');
-          schemaContent += `\n-- Dictionary: ${objectName}\n`;
-          schemaContent += createStatement;
-          if (!createStatement.endsWith(';')) {
-            schemaContent += ';';
-          }
-          schemaContent += '\n\n';
+          schemaContent += `\n${formatSchemaObject(key, createStatement)}\n`;
         }
       }
 
       await fs.writeFile(schemaPath, schemaContent);
-      if (this.context.verbose) {
-        console.log(chalk.dim(`✅ Schema file updated: ${schemaPath}`));
-      } else {
-        console.log(chalk.green('✅ Schema file updated'));
-      }
+      this.emit('schema:updated', { path: schemaPath });
+      return { status: 'updated', path: schemaPath };
     } catch (error: any) {
-      console.warn(chalk.yellow(`⚠️ Warning: Could not update schema file: ${error.message}`));
+      return { status: 'failed', path: schemaPath, error: error.message };
     }
   }
 
-  async schemaLoad() {
-    console.log(chalk.blue('⏳ Loading schema from local migration files into the database (marking as applied without running SQL)...'));
+  // Write one file per object under <database>/<type>/<name>.sql and remove the files of objects that no longer exist
+  private async _writeSchemaDirectory(schemaDir: string, schema: Record<string, string>) {
+    const written = new Set<string>();
+    for (const [key, statement] of Object.entries(schema)) {
+      const { type, name, database } = splitSchemaKey(key);
+      const filePath = path.join(schemaDir, toPathSegment(database), type, `${toPathSegment(name.slice(database.length + 1))}.sql`);
+      const relative = path.relative(schemaDir, filePath);
+      if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        throw new Error(`Refusing to write ${key} outside of the schema directory: ${filePath}`);
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, formatSchemaObject(key, statement));
+      written.add(filePath);
+    }
+    for (const filePath of await this._listSchemaFiles(schemaDir)) {
+      if (!written.has(filePath)) {
+        await fs.unlink(filePath);
+      }
+    }
+  }
+
+  // Paths of the .sql files in the schema directory and its subdirectories
+  private async _listSchemaFiles(dir: string): Promise<string[]> {
+    let entries: fsSync.Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this._listSchemaFiles(entryPath));
+      } else if (entry.name.endsWith('.sql')) {
+        files.push(entryPath);
+      }
+    }
+    return files.sort();
+  }
+
+  /**
+   * Compare schema.sql with the live database schema, to find changes made outside of migrations
+   * @returns The tables, materialized views and dictionaries that differ from schema.sql
+   */
+  async schemaDiff(): Promise<SchemaDiffResult> {
+    const schemaPath = this._schemaPath();
+    this.logger.info(chalk.blue(`🔍  Comparing ${schemaPath} with the live database schema...`));
+    const fileSchema = await this._readSchemaFile(schemaPath);
+    const liveSchema = await this.db.getDatabaseSchema();
+    return { schemaPath, differences: diffSchemas(fileSchema, liveSchema) };
+  }
+
+  // Read the objects of schema.sql, or of every file in the schema directory
+  private async _readSchemaFile(schemaPath: string): Promise<Record<string, string>> {
+    try {
+      if (this.context.schema?.layout !== 'directory') {
+        return parseSchemaFile(await fs.readFile(schemaPath, 'utf-8'));
+      }
+      await fs.stat(schemaPath);
+      const schema: Record<string, string> = {};
+      for (const filePath of await this._listSchemaFiles(schemaPath)) {
+        Object.assign(schema, parseSchemaFile(await fs.readFile(filePath, 'utf-8')));
+      }
+      return schema;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') {
+        throw new Error(`Schema file ${schemaPath} not found. It is written after each migration run unless skipSchemaUpdate is set.`);
+      }
+      throw e;
+    }
+  }
+
+  // Create the databases and objects of schema.sql in dependency order, on the cluster when there is one.
+  // Objects that already exist are left as they are.
+  private async _createSchemaFromFile(): Promise<string[]> {
+    const schemaPath = this._schemaPath();
+    const schema = await this._readSchemaFile(schemaPath);
+    const keys = orderSchemaObjects(schema).filter(key => !CLICKSUITE_OBJECT_REGEX.test(key));
+    this.logger.info(chalk.blue(`⏳ Creating ${keys.length} object(s) from ${schemaPath}...`));
+
+    const clusterClause = this.context.cluster ? ` ON CLUSTER ${this.context.cluster}` : '';
+    const databases = Array.from(new Set(keys.map(key => splitSchemaKey(key).database)));
+    for (const database of databases) {
+      await this.db.executeMigration(`CREATE DATABASE IF NOT EXISTS ${database}${clusterClause}`);
+    }
+
+    const created: string[] = [];
+    for (const key of keys) {
+      this.logger.info(chalk.magenta(`⏳ Creating ${key.replace('/', ' ')}`));
+      try {
+        const statement = toCreateIfNotExists(schema[key]);
+        await this.db.executeMigration(this.context.cluster ? addOnCluster(statement, this.context.cluster) : statement);
+      } catch (error: any) {
+        this.logger.error(chalk.bold.red(`❌ Error creating ${key.replace('/', ' ')}:`), error.message);
+        throw new ClicksuiteError('SCHEMA_LOAD_FAILED', `Could not create ${key.replace('/', ' ')} from schema.sql: ${error.message}`, { cause: error });
+      }
+      created.push(key);
+    }
+    return created;
+  }
+
+  /**
+   * Mark every local migration as applied without running it
+   * @param fromFile - First create the databases and objects of schema.sql, to bootstrap a fresh database
+   * @returns The versions that were loaded, skipped or failed, and the objects created from schema.sql
+   */
+  async schemaLoad(fromFile: boolean = false): Promise<SchemaLoadResult> {
+    return this._withLock('schema:load', () => this._schemaLoad(fromFile));
+  }
+
+  private async _schemaLoad(fromFile: boolean): Promise<SchemaLoadResult> {
+    const result: SchemaLoadResult = { loaded: [], skipped: [], failed: [], created: [], schemaUpdate: { status: 'skipped' } };
+    if (fromFile) {
+      // schema.sql leaves out clicksuite's own tables, and a fresh database has none yet
+      await this.db.initMigrationsTable();
+      result.created = await this._createSchemaFromFile();
+    }
+    this.logger.info(chalk.blue('⏳ Loading schema from local migration files into the database (marking as applied without running SQL)...'));
     const localMigrations = await this._getLocalMigrations();
     const dbRecords = await this.db.getAllMigrationRecords();
     const dbMap = new Map<string, MigrationRecord>();
     dbRecords.forEach(rec => dbMap.set(rec.version, rec));
 
     if (localMigrations.length === 0) {
-      console.log(chalk.yellow('ℹ️ No local migration files found to load.'));
-      return;
+      this.logger.info(chalk.yellow('ℹ️ No local migration files found to load.'));
+      return result;
     }
 
-    let loadedCount = 0;
-    let skippedCount = 0;
-
     for (const migration of localMigrations) {
       const existingRecord = dbMap.get(migration.version);
       if (existingRecord && existingRecord.active === 1) {
-        console.log(chalk.gray(`⏭️ Skipping ${migration.version} - ${migration.name}: Already marked as active in DB.`));
-        skippedCount++;
+        result.skipped.push(migration.version);
         continue;
       }
       
       try {
-        await this.db.markMigrationApplied(migration.version);
-        console.log(chalk.green(`✅ Loaded ${migration.version} - ${migration.name} into migrations table as APPLIED.`));
-        loadedCount++;
+        await this.db.markMigrationApplied(migration.version, migrationChecksum(migration));
+        result.loaded.push(migration.version);
       } catch (error: any) {
-        console.error(chalk.bold.red(`❌ Error loading migration ${migration.version} - ${migration.name} into DB:`), error.message);
+        this.logger.error(chalk.bold.red(`❌ Error loading migration ${migration.version} - ${migration.name} into DB:`), error.message);
+        result.failed.push(migration.version);
       }
     }
 
-    console.log(chalk.greenBright('\n✅ Schema loading process complete.'));
-    console.log(chalk.cyan(`  ℹ️ ${loadedCount} migration(s) newly marked as APPLIED.`));
-    console.log(chalk.gray(`  ℹ️ ${skippedCount} migration(s) were already APPLIED and skipped.`));
-    
-    if (loadedCount > 0) {
+    if (result.loaded.length > 0) {
         try {
             await this.db.optimizeMigrationTable();
             if (!this.context.skipSchemaUpdate) {
-                await this._updateSchemaFile();
+                result.schemaUpdate = await this._updateSchemaFile();
             }
         } catch (e) { /* error already logged by optimizeMigrationTable */ }
     }
+    return result;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,333 @@
+// Compares the schema.sql snapshot written after each run with the live database schema.
+//
+// Both sides use the keys of Db.getDatabaseSchema(): 'table/<db>.<name>', 'view/<db>.<name>'
+// and 'dictionary/<db>.<name>'. Statements are normalized before comparing, so differences in
+// trailing semicolons, line endings and trailing whitespace are not reported as drift.
+//
+// Also orders the objects of schema.sql by their dependencies, so schema:load --from-file
+// can create them in a fresh database, and decides which objects the snapshot covers.
+
+import { SchemaDifference, SchemaObjectType, SchemaOptions } from './types';
+
+const DIFF_CONTEXT_LINES = 3;
+
+// Parts of SHOW CREATE output that differ between identical databases
+const TABLE_UUID_REGEX = /\s+(?:TO\s+INNER\s+)?UUID\s+'[0-9a-fA-F-]{36}'/g;
+const REPLICA_ARGUMENTS_REGEX = /\b(Replicated\w*MergeTree)\(\s*'(?:[^'\\]|\\.)*'\s*,\s*'(?:[^'\\]|\\.)*'\s*(?:,\s*)?/g;
+
+// Object headers written by Runner._updateSchemaFile, mapped to their schema key prefix
+const SCHEMA_FILE_HEADERS: Record<string, SchemaObjectType> = {
+  'Table': 'table',
+  'Materialized View': 'view',
+  'Dictionary': 'dictionary',
+};
+const SCHEMA_FILE_HEADER_LABELS: Record<SchemaObjectType, string> = {
+  table: 'Table',
+  view: 'Materialized View',
+  dictionary: 'Dictionary',
+};
+const SCHEMA_FILE_HEADER_REGEX = /^-- (Table|Materialized View|Dictionary): (.+)$/;
+const SCHEMA_FILE_SECTION_REGEX = /^-- =+$/;
+
+// Objects of the same rank are created in name order; lower ranks go first unless they depend on a higher one
+const CREATION_RANK: Record<SchemaObjectType, number> = { table: 0, dictionary: 1, view: 2 };
+const DICTIONARY_SOURCE_TABLE_REGEX = /\bTABLE\s+'([^']+)'/i;
+const DICTIONARY_SOURCE_DB_REGEX = /\bDB\s+'([^']+)'/i;
+const DISTRIBUTED_ENGINE_REGEX = /\bENGINE\s*=\s*Distributed\(\s*'?[^,']+'?\s*,\s*'?([\w]+)'?\s*,\s*'?([\w]+)'?/i;
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Split a schema key such as 'table/app.users' into its parts
+ * @param key - The key, as used by Db.getDatabaseSchema()
+ * @returns The object type, its '<database>.<name>' and its database
+ */
+export function splitSchemaKey(key: string): { type: SchemaObjectType; name: string; database: string } {
+  const separator = key.indexOf('/');
+  const name = key.slice(separator + 1);
+  return { type: key.slice(0, separator) as SchemaObjectType, name, database: name.slice(0, name.indexOf('.')) };
+}
+
+// Convert a scope pattern to a regex: '*' matches any run of characters and '?' a single one
+function patternToRegex(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(ch => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function matchesPattern(pattern: string, database: string, name: string): boolean {
+  return patternToRegex(pattern).test(pattern.includes('.') ? `${database}.${name}` : database);
+}
+
+/**
+ * Check whether an object belongs in the schema snapshot
+ * @param database - The object's database
+ * @param name - The object's name, without its database
+ * @param options - The schema options of the context
+ * @returns False if the include patterns leave the object out, an exclude pattern matches it,
+ *   or it is a clicksuite tracking table and skipMigrationsTable is set
+ */
+export function isInSchemaScope(database: string, name: string, options: SchemaOptions = {}): boolean {
+  if (options.skipMigrationsTable && name.startsWith('__clicksuite_')) {
+    return false;
+  }
+  if (options.include && options.include.length > 0 && !options.include.some(pattern => matchesPattern(pattern, database, name))) {
+    return false;
+  }
+  return !(options.exclude || []).some(pattern => matchesPattern(pattern, database, name));
+}
+
+/**
+ * Normalize a CREATE statement for comparison
+ * @param statement - The statement from schema.sql or SHOW CREATE
+ * @returns The statement without trailing semicolon, trailing whitespace or carriage returns
+ */
+export function normalizeStatement(statement: string): string {
+  return statement
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim()
+    .replace(/;+$/, '')
+    .trim();
+}
+
+/**
+ * Make SHOW CREATE output reproducible: normalize its formatting and remove the table UUIDs that
+ * Atomic databases assign on creation
+ * @param statement - The CREATE statement returned by SHOW CREATE
+ * @param options - The schema options of the context; stripReplicaPaths also removes the ZooKeeper path
+ *   and replica name of Replicated* engines, including expanded {shard} and {replica} macros
+ * @returns The statement as written to schema.sql
+ */
+export function stabilizeStatement(statement: string, options: SchemaOptions = {}): string {
+  let stable = normalizeStatement(statement).replace(TABLE_UUID_REGEX, '');
+  if (options.stripReplicaPaths) {
+    stable = stable.replace(REPLICA_ARGUMENTS_REGEX, '$1(');
+  }
+  return stable;
+}
+
+/**
+ * Parse a schema.sql file back into its objects
+ * @param content - The contents of schema.sql
+ * @returns The CREATE statement of each object, keyed like Db.getDatabaseSchema()
+ */
+export function parseSchemaFile(content: string): Record<string, string> {
+  const schema: Record<string, string> = {};
+  let currentKey: string | undefined;
+  let currentLines: string[] = [];
+
+  const flush = () => {
+    if (currentKey) {
+      schema[currentKey] = normalizeStatement(currentLines.join('\n'));
+    }
+    currentKey = undefined;
+    currentLines = [];
+  };
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(SCHEMA_FILE_HEADER_REGEX);
+    if (header) {
+      flush();
+      currentKey = `${SCHEMA_FILE_HEADERS[header[1]]}/${header[2].trim()}`;
+      continue;
+    }
+    if (SCHEMA_FILE_SECTION_REGEX.test(line)) {
+      flush();
+      continue;
+    }
+    if (currentKey) {
+      currentLines.push(line);
+    }
+  }
+  flush();
+  return schema;
+}
+
+/**
+ * Render one object the way schema.sql lists it, for the files of the 'directory' layout
+ * @param key - The object's key, as used by Db.getDatabaseSchema()
+ * @param statement - Its CREATE statement
+ * @returns The header comment and the statement, which parseSchemaFile() reads back
+ */
+export function formatSchemaObject(key: string, statement: string): string {
+  const { type, name } = splitSchemaKey(key);
+  return `-- ${SCHEMA_FILE_HEADER_LABELS[type]}: ${name}\n${normalizeStatement(statement)};\n`;
+}
+
+// Line diff based on the longest common subsequence of both sides
+function diffLines(from: string[], to: string[]): DiffLine[] {
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () => new Array(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] = from[i] === to[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      lines.push({ op: ' ', text: from[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: '-', text: from[i++] });
+    } else {
+      lines.push({ op: '+', text: to[j++] });
+    }
+  }
+  while (i < from.length) lines.push({ op: '-', text: from[i++] });
+  while (j < to.length) lines.push({ op: '+', text: to[j++] });
+  return lines;
+}
+
+// Format a hunk range; empty ranges point at the line before them, as in `diff -u`
+function hunkRange(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Render a unified diff between two texts
+ * @param from - The original text
+ * @param to - The new text
+ * @param fromLabel - Label of the original text, shown on the '---' line
+ * @param toLabel - Label of the new text, shown on the '+++' line
+ * @returns The diff, or an empty string when the texts are equal
+ */
+export function unifiedDiff(from: string, to: string, fromLabel: string, toLabel: string): string {
+  const fromLines = from === '' ? [] : from.split('\n');
+  const toLines = to === '' ? [] : to.split('\n');
+  const lines = diffLines(fromLines, toLines);
+  const changed = lines.map((line, index) => (line.op === ' ' ? -1 : index)).filter(index => index !== -1);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context overlaps into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(index - DIFF_CONTEXT_LINES, 0);
+    const end = Math.min(index + DIFF_CONTEXT_LINES + 1, lines.length);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [start, end] of hunks) {
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const fromStart = before.filter(line => line.op !== '+').length;
+    const toStart = before.filter(line => line.op !== '-').length;
+    const fromCount = hunk.filter(line => line.op !== '+').length;
+    const toCount = hunk.filter(line => line.op !== '-').length;
+    output.push(`@@ -${hunkRange(fromStart, fromCount)} +${hunkRange(toStart, toCount)} @@`);
+    hunk.forEach(line => output.push(`${line.op}${line.text}`));
+  }
+  return output.join('\n');
+}
+
+/**
+ * Compare the objects of schema.sql with those of the live database
+ * @param expected - The objects parsed from schema.sql
+ * @param actual - The objects returned by Db.getDatabaseSchema()
+ * @returns The objects that were added, removed or changed in the database, sorted by type and name
+ */
+export function diffSchemas(expected: Record<string, string>, actual: Record<string, string>): SchemaDifference[] {
+  const differences: SchemaDifference[] = [];
+  const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)])).sort();
+
+  for (const key of keys) {
+    const { type, name } = splitSchemaKey(key);
+    const expectedStatement = expected[key] !== undefined ? normalizeStatement(expected[key]) : undefined;
+    const actualStatement = actual[key] !== undefined ? normalizeStatement(actual[key]) : undefined;
+    if (expectedStatement === actualStatement) {
+      continue;
+    }
+
+    const change = expectedStatement === undefined ? 'added' : actualStatement === undefined ? 'removed' : 'changed';
+    const diff = unifiedDiff(
+      expectedStatement ?? '',
+      actualStatement ?? '',
+      expectedStatement === undefined ? '/dev/null' : `schema.sql (${key})`,
+      actualStatement === undefined ? '/dev/null' : `database (${key})`,
+    );
+    differences.push({ type, name, change, diff });
+  }
+  return differences;
+}
+
+// Names ('<database>.<name>') of the objects a CREATE statement reads from or writes to
+function findReferences(key: string, statement: string, names: string[]): Set<string> {
+  const { type, name, database } = splitSchemaKey(key);
+  const references = new Set<string>();
+  const unquoted = statement.replace(/`/g, '');
+  for (const other of names) {
+    if (other !== name && new RegExp(`(^|[^\\w.])${other.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\w])`).test(unquoted)) {
+      references.add(other);
+    }
+  }
+  if (type === 'dictionary') {
+    const sourceTable = statement.match(DICTIONARY_SOURCE_TABLE_REGEX);
+    if (sourceTable) {
+      const sourceDb = statement.match(DICTIONARY_SOURCE_DB_REGEX);
+      references.add(sourceTable[1].includes('.') ? sourceTable[1] : `${sourceDb ? sourceDb[1] : database}.${sourceTable[1]}`);
+    }
+  }
+  const distributed = unquoted.match(DISTRIBUTED_ENGINE_REGEX);
+  if (distributed) {
+    references.add(`${distributed[1]}.${distributed[2]}`);
+  }
+  return references;
+}
+
+/**
+ * Order schema objects so that every object is created after the objects it depends on:
+ * tables before the materialized views that read from or write to them, and dictionary
+ * sources before their dictionaries
+ * @param schema - The objects, keyed like Db.getDatabaseSchema()
+ * @returns The keys in creation order
+ */
+export function orderSchemaObjects(schema: Record<string, string>): string[] {
+  const keys = Object.keys(schema);
+  const keyByName = new Map(keys.map(key => [splitSchemaKey(key).name, key]));
+  const names = Array.from(keyByName.keys());
+  const dependencies = new Map(keys.map(key => [
+    key,
+    new Set(Array.from(findReferences(key, schema[key], names)).map(name => keyByName.get(name)).filter((dep): dep is string => !!dep && dep !== key)),
+  ]));
+  const byRank = (a: string, b: string) =>
+    CREATION_RANK[splitSchemaKey(a).type] - CREATION_RANK[splitSchemaKey(b).type] || a.localeCompare(b);
+
+  const ordered: string[] = [];
+  const remaining = new Set(keys);
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining).filter(key => Array.from(dependencies.get(key)!).every(dep => !remaining.has(dep)));
+    // A dependency cycle cannot be ordered; fall back to the type order for what is left
+    const next = (ready.length > 0 ? ready : Array.from(remaining)).sort(byRank)[0];
+    ordered.push(next);
+    remaining.delete(next);
+  }
+  return ordered;
+}
+
+/**
+ * Make a CREATE statement from schema.sql safe to run against a database that already has the object
+ * @param statement - The CREATE TABLE, MATERIALIZED VIEW or DICTIONARY statement
+ * @returns The statement with IF NOT EXISTS
+ */
+export function toCreateIfNotExists(statement: string): string {
+  return statement.replace(/^\s*CREATE\s+(TABLE|MATERIALIZED\s+VIEW|VIEW|DICTIONARY)\s+(?!IF\s+NOT\s+EXISTS\b)/i, (_, kind) => `CREATE ${kind} IF NOT EXISTS `);
+}
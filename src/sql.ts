@@ -0,0 +1,458 @@
+// Splits a multi-statement SQL script into individual statements.
+//
+// Semicolons only end a statement when they appear outside of:
+//   - string literals and quoted identifiers ('...', "...", `...`), including
+//     backslash escapes and doubled quote characters
+//   - heredocs ($$...$$ or $tag$...$tag$)
+//   - comments (-- ..., # ..., #! ..., and nested /* ... */)
+//   - parentheses, e.g. dictionary SOURCE(...) definitions or lambda bodies
+//
+// Comments are kept inside the statement they belong to, but a segment that
+// contains nothing except whitespace and comments is dropped.
+//
+// Also parses plain SQL migration files, whose metadata lives in
+// '-- +clicksuite ...' comment directives, finds the statements that start
+// a mutation and adds ON CLUSTER to DDL statements.
+
+import { DdlTarget, MutationTarget, RawSqlMigrationContent } from './types';
+
+const HEREDOC_TAG_REGEX = /\$([A-Za-z_][A-Za-z0-9_]*)?\$/y;
+
+// Returns the index just past the end of the heredoc starting at `start`, or -1 if there is none
+function skipHeredoc(sql: string, start: number): number {
+  HEREDOC_TAG_REGEX.lastIndex = start;
+  const match = HEREDOC_TAG_REGEX.exec(sql);
+  if (!match) {
+    return -1;
+  }
+  const tag = match[0];
+  const close = sql.indexOf(tag, start + tag.length);
+  return close === -1 ? sql.length : close + tag.length;
+}
+
+// Returns the index just past the end of the quoted token starting at `start`
+function skipQuoted(sql: string, start: number): number {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      // A doubled quote character is an escaped quote, not the end of the token
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+// Returns the index just past the end of the (possibly nested) block comment starting at `start`
+function skipBlockComment(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql.startsWith('/*', i)) {
+      depth++;
+      i += 2;
+    } else if (sql.startsWith('*/', i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+// Returns the index of the end of the line comment starting at `start` (the newline is not consumed)
+function skipLineComment(sql: string, start: number): number {
+  const end = sql.indexOf('\n', start);
+  return end === -1 ? sql.length : end;
+}
+
+function isLineCommentStart(sql: string, i: number): boolean {
+  if (sql.startsWith('--', i)) {
+    return true;
+  }
+  // ClickHouse also accepts '#!' and '# ' as line comment markers
+  return sql[i] === '#' && (sql[i + 1] === '!' || sql[i + 1] === ' ' || sql[i + 1] === '\t');
+}
+
+/**
+ * Strip comments from a statement, leaving string literals untouched
+ * @param sql - The SQL to strip
+ * @returns The SQL without comments
+ */
+export function stripComments(sql: string): string {
+  let result = '';
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const end = skipQuoted(sql, i);
+      result += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '$') {
+      const end = skipHeredoc(sql, i);
+      if (end !== -1) {
+        result += sql.slice(i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    if (sql.startsWith('/*', i)) {
+      i = skipBlockComment(sql, i);
+      result += ' ';
+      continue;
+    }
+
+    if (isLineCommentStart(sql, i)) {
+      i = skipLineComment(sql, i);
+      continue;
+    }
+
+    result += ch;
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Split a SQL script into individual statements
+ * @param sql - The SQL script, possibly containing several `;`-separated statements
+ * @returns The trimmed statements, without their trailing semicolons
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let parenDepth = 0;
+  let i = 0;
+
+  const flush = () => {
+    const statement = current.trim();
+    if (statement.length > 0 && stripComments(statement).trim().length > 0) {
+      statements.push(statement);
+    }
+    current = '';
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const end = skipQuoted(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '$') {
+      const end = skipHeredoc(sql, i);
+      if (end !== -1) {
+        current += sql.slice(i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    if (sql.startsWith('/*', i)) {
+      const end = skipBlockComment(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (isLineCommentStart(sql, i)) {
+      const end = skipLineComment(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '(') {
+      parenDepth++;
+    } else if (ch === ')' && parenDepth > 0) {
+      parenDepth--;
+    } else if (ch === ';' && parenDepth === 0) {
+      flush();
+      i++;
+      continue;
+    }
+
+    current += ch;
+    i++;
+  }
+  flush();
+
+  return statements;
+}
+
+// An ALTER TABLE target, with its optional ON CLUSTER clause, followed by the ALTER commands
+const ALTER_TABLE_REGEX = /^\s*ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?((?:`[^`]+`|"[^"]+"|[\w{}]+)(?:\.(?:`[^`]+`|"[^"]+"|[\w{}]+))?)(?:\s+ON\s+CLUSTER\s+(?:'[^']*'|`[^`]+`|"[^"]+"|[\w{}-]+))?\s+([\s\S]*)$/i;
+// ALTER commands that ClickHouse runs as a mutation in the background after the statement returns
+const MUTATION_COMMAND_REGEX = /\b(?:UPDATE|DELETE\s+(?:IN\s+PARTITION\s+[\s\S]+?\s+)?WHERE|MATERIALIZE\s+(?:COLUMN|INDEX|PROJECTION|TTL|STATISTICS)|CLEAR\s+(?:COLUMN|INDEX|PROJECTION)|MODIFY\s+(?:COLUMN|TTL)|DROP\s+COLUMN)\b/i;
+
+function unquoteIdentifier(identifier: string): string {
+  return identifier.replace(/^([`"])(.*)\1$/, '$2');
+}
+
+/**
+ * Find the table an ALTER TABLE statement starts a mutation on, such as UPDATE, DELETE or MATERIALIZE COLUMN
+ * @param statement - A single statement, as returned by splitStatements
+ * @returns The database (when the statement names one) and table, or undefined when the statement starts no mutation
+ */
+export function getMutationTarget(statement: string): MutationTarget | undefined {
+  const match = stripComments(statement).match(ALTER_TABLE_REGEX);
+  if (!match || !MUTATION_COMMAND_REGEX.test(match[2].replace(/'(?:[^'\\]|\\.|'')*'/g, "''"))) {
+    return undefined;
+  }
+  const parts = match[1].match(/`[^`]+`|"[^"]+"|[\w{}]+/g)!.map(unquoteIdentifier);
+  return parts.length === 2 ? { database: parts[0], table: parts[1] } : { table: parts[0] };
+}
+
+const NAME_PATTERN = '(?:`[^`]+`|"[^"]+"|[\\w{}]+)(?:\\.(?:`[^`]+`|"[^"]+"|[\\w{}]+))?';
+// DDL statements that ClickHouse can run ON CLUSTER, up to and including the name(s) of the object they work on,
+// captured as `kind` and `names`. Temporary tables only exist in the session, so they are left alone.
+const CLUSTER_DDL_REGEXES = [
+  new RegExp(`^(?:CREATE|ATTACH)(?:\\s+OR\\s+REPLACE)?\\s+(?<kind>TABLE|DATABASE|DICTIONARY|(?:MATERIALIZED\\s+|LIVE\\s+|WINDOW\\s+)?VIEW|FUNCTION)\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(?<names>${NAME_PATTERN})`, 'i'),
+  new RegExp(`^ALTER\\s+(?<kind>TABLE)\\s+(?:IF\\s+EXISTS\\s+)?(?<names>${NAME_PATTERN})`, 'i'),
+  new RegExp(`^(?:DROP|DETACH)\\s+(?<kind>TABLE|DATABASE|DICTIONARY|VIEW|FUNCTION)\\s+(?:IF\\s+EXISTS\\s+)?(?<names>${NAME_PATTERN})`, 'i'),
+  new RegExp(`^RENAME\\s+(?<kind>TABLE|DATABASE|DICTIONARY)\\s+(?<names>${NAME_PATTERN}\\s+TO\\s+${NAME_PATTERN}(?:\\s*,\\s*${NAME_PATTERN}\\s+TO\\s+${NAME_PATTERN})*)`, 'i'),
+  new RegExp(`^TRUNCATE\\s+(?:(?<kind>TABLE)\\s+)?(?:IF\\s+EXISTS\\s+)?(?<names>${NAME_PATTERN})`, 'i'),
+];
+
+// Returns the index of the first character that is neither whitespace nor part of a comment
+function skipLeadingComments(sql: string): number {
+  let i = 0;
+  while (i < sql.length) {
+    if (/\s/.test(sql[i])) {
+      i++;
+    } else if (sql.startsWith('/*', i)) {
+      i = skipBlockComment(sql, i);
+    } else if (isLineCommentStart(sql, i)) {
+      i = skipLineComment(sql, i);
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+// Matches a DDL statement against CLUSTER_DDL_REGEXES, returning the match and the index it starts at
+function matchDdl(statement: string): { match: RegExpMatchArray; start: number } | undefined {
+  const start = skipLeadingComments(statement);
+  const body = statement.slice(start);
+  for (const regex of CLUSTER_DDL_REGEXES) {
+    const match = body.match(regex);
+    if (match) {
+      return { match, start };
+    }
+  }
+  return undefined;
+}
+
+// Finds where ON CLUSTER goes in a DDL statement, and whether the statement already has it
+function findOnClusterPosition(statement: string): { index: number; present: boolean } | undefined {
+  const ddl = matchDdl(statement);
+  if (!ddl) {
+    return undefined;
+  }
+  const index = ddl.start + ddl.match[0].length;
+  return { index, present: /^\s+(ON\s+CLUSTER\b|\{on_cluster\})/i.test(statement.slice(index)) };
+}
+
+/**
+ * Find the tables, views, dictionaries and databases a DDL statement creates, alters, drops, renames or truncates
+ * @param statement - A single statement, as returned by splitStatements
+ * @returns The objects the statement works on; RENAME statements yield both the old and the new names
+ */
+export function getDdlTargets(statement: string): DdlTarget[] {
+  const ddl = matchDdl(statement);
+  if (!ddl) {
+    return [];
+  }
+  const kind = (ddl.match.groups!.kind || 'TABLE').toUpperCase();
+  if (kind === 'FUNCTION') {
+    return [];
+  }
+  const names = ddl.match.groups!.names.match(new RegExp(NAME_PATTERN, 'g'))!.filter(name => name.toUpperCase() !== 'TO');
+  return names.map(name => {
+    const parts = name.match(/`[^`]+`|"[^"]+"|[\w{}]+/g)!.map(unquoteIdentifier);
+    if (kind === 'DATABASE') {
+      return { database: parts[0] };
+    }
+    return parts.length === 2 ? { database: parts[0], name: parts[1] } : { name: parts[0] };
+  });
+}
+
+/**
+ * Tell whether a statement is DDL (CREATE, ALTER, DROP, RENAME or TRUNCATE) that does not run ON CLUSTER
+ * @param statement - A single statement, as returned by splitStatements
+ */
+export function isDdlWithoutOnCluster(statement: string): boolean {
+  const position = findOnClusterPosition(statement);
+  return !!position && !position.present;
+}
+
+/**
+ * Add an ON CLUSTER clause to a DDL statement that does not have one, after the name of the object it works on
+ * @param statement - A single statement, as returned by splitStatements
+ * @param cluster - The cluster to run the statement on
+ * @returns The statement with ON CLUSTER, or the statement unchanged when it is not DDL or already runs ON CLUSTER
+ */
+export function addOnCluster(statement: string, cluster: string): string {
+  const position = findOnClusterPosition(statement);
+  if (!position || position.present) {
+    return statement;
+  }
+  return `${statement.slice(0, position.index)} ON CLUSTER ${cluster}${statement.slice(position.index)}`;
+}
+
+/**
+ * Add the {on_cluster} placeholder to a DDL statement that does not run ON CLUSTER, after the name of the object it works on
+ * @param statement - A single statement, as returned by splitStatements
+ * @returns The statement with {on_cluster}, or the statement unchanged when it is not DDL or already runs ON CLUSTER
+ */
+export function addOnClusterPlaceholder(statement: string): string {
+  const position = findOnClusterPosition(statement);
+  if (!position || position.present) {
+    return statement;
+  }
+  return `${statement.slice(0, position.index)} {on_cluster}${statement.slice(position.index)}`;
+}
+
+const DIRECTIVE_REGEX = /^\s*--\s*\+clicksuite\s+(.*?)\s*$/i;
+const SECTION_MARKER_REGEX = /^(up|down)$/i;
+const DIRECTIVE_VALUE_REGEX = /^([\w-]+)\s*:\s*(.*)$/;
+
+// Numeric setting values are passed to ClickHouse as numbers, everything else as strings
+function parseSettingValue(value: string): string | number {
+  const unquoted = value.replace(/^(['"])(.*)\1$/, '$2');
+  if (unquoted !== value || unquoted === '' || isNaN(Number(unquoted))) {
+    return unquoted;
+  }
+  return Number(unquoted);
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function applyDirective(content: RawSqlMigrationContent, directive: string) {
+  const match = directive.match(DIRECTIVE_VALUE_REGEX);
+  if (!match) {
+    throw new Error(`Invalid directive '-- +clicksuite ${directive}'. Expected '-- +clicksuite <key>: <value>'.`);
+  }
+  const key = match[1].toLowerCase();
+  const value = match[2].trim();
+
+  switch (key) {
+    case 'table':
+      content.table = value;
+      break;
+    case 'database':
+      content.database = value;
+      break;
+    case 'environments':
+      content.environments = Array.from(new Set([...(content.environments || []), ...splitList(value)]));
+      break;
+    case 'settings':
+      for (const setting of splitList(value)) {
+        const separator = setting.indexOf('=');
+        if (separator <= 0) {
+          throw new Error(`Invalid setting '${setting}'. Expected '<name>=<value>'.`);
+        }
+        content.settings[setting.slice(0, separator).trim()] = parseSettingValue(setting.slice(separator + 1).trim());
+      }
+      break;
+    case 'wait_for_mutations':
+      if (!/^(true|false)$/i.test(value)) {
+        throw new Error(`Invalid value '${value}' for wait_for_mutations. Expected 'true' or 'false'.`);
+      }
+      content.waitForMutations = value.toLowerCase() === 'true';
+      break;
+    default:
+      throw new Error(`Unknown directive '-- +clicksuite ${match[1]}'. Supported directives: table, database, settings, environments, wait_for_mutations.`);
+  }
+}
+
+// Collects the directives of a file and returns its lines without directive lines, tagged with
+// the section ('header', 'up' or 'down') they belong to, plus the section markers that were found
+function readDirectives(sql: string, content: RawSqlMigrationContent, allowSections: boolean): { lines: Array<[string, string]>; sections: Set<string> } {
+  const lines: Array<[string, string]> = [];
+  const seenSections = new Set<string>();
+  let section = allowSections ? 'header' : 'body';
+
+  for (const line of sql.split(/\r?\n/)) {
+    const directive = line.match(DIRECTIVE_REGEX);
+    if (!directive) {
+      lines.push([section, line]);
+      continue;
+    }
+    if (SECTION_MARKER_REGEX.test(directive[1])) {
+      if (!allowSections) {
+        throw new Error(`Section marker '-- +clicksuite ${directive[1]}' is only allowed in single-file .sql migrations.`);
+      }
+      section = directive[1].toLowerCase();
+      if (seenSections.has(section)) {
+        throw new Error(`Duplicate '-- +clicksuite ${directive[1]}' section marker.`);
+      }
+      seenSections.add(section);
+      continue;
+    }
+    applyDirective(content, directive[1]);
+  }
+  return { lines, sections: seenSections };
+}
+
+function joinSection(lines: Array<[string, string]>, section: string): string | undefined {
+  const sql = lines.filter(([lineSection]) => lineSection === section).map(([, line]) => line).join('\n').trim();
+  return sql.length > 0 ? sql : undefined;
+}
+
+/**
+ * Parse a single-file SQL migration with '-- +clicksuite Up' and '-- +clicksuite Down' sections
+ * @param sql - The contents of the .sql file
+ * @returns The up and down SQL together with the directives found in the file
+ */
+export function parseSqlMigration(sql: string): RawSqlMigrationContent {
+  const content: RawSqlMigrationContent = { settings: {} };
+  const { lines, sections } = readDirectives(sql, content, true);
+  if (!sections.has('up')) {
+    throw new Error(`Missing '-- +clicksuite Up' section marker.`);
+  }
+  content.upSQL = joinSection(lines, 'up');
+  content.downSQL = joinSection(lines, 'down');
+  return content;
+}
+
+/**
+ * Parse a SQL migration split into a .up.sql file and an optional .down.sql file
+ * @param upSql - The contents of the .up.sql file
+ * @param downSql - The contents of the .down.sql file, if there is one
+ * @returns The up and down SQL together with the directives found in both files
+ */
+export function parseSqlMigrationPair(upSql: string, downSql?: string): RawSqlMigrationContent {
+  const content: RawSqlMigrationContent = { settings: {} };
+  // Directives in the .up.sql file take precedence over those in the .down.sql file
+  const downLines = downSql !== undefined ? readDirectives(downSql, content, false).lines : [];
+  const upLines = readDirectives(upSql, content, false).lines;
+  content.upSQL = joinSection(upLines, 'body');
+  content.downSQL = joinSection(downLines, 'body');
+  return content;
+}
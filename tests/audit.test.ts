@@ -0,0 +1,34 @@
+import * as os from 'os';
+import { getAuditMetadata } from '../src/audit';
+
+describe('audit', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should describe the clicksuite version, OS user and host', () => {
+    const metadata = getAuditMetadata(process.cwd());
+
+    expect(metadata.clicksuite_version).toBe(require('../package.json').version);
+    expect(metadata.os_user).toBe(os.userInfo().username);
+    expect(metadata.host).toBe(os.hostname());
+  });
+
+  it('should prefer the commit a CI system provides', () => {
+    process.env.GITHUB_SHA = 'abc123';
+
+    expect(getAuditMetadata(process.cwd()).git_commit).toBe('abc123');
+  });
+
+  it('should leave the commit empty outside of a git checkout', () => {
+    ['GIT_COMMIT', 'GITHUB_SHA', 'CI_COMMIT_SHA', 'BITBUCKET_COMMIT', 'CIRCLE_SHA1'].forEach(name => delete process.env[name]);
+
+    expect(getAuditMetadata(os.tmpdir()).git_commit).toBe('');
+  });
+});
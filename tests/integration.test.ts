@@ -185,7 +185,8 @@ test:
       const mockDb = {
         getAllMigrationRecords: jest.fn().mockResolvedValue([
           { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
-        ])
+        ]),
+        getMigrationSteps: jest.fn().mockResolvedValue([])
       };
 
       (runner as any).db = mockDb;
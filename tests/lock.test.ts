@@ -0,0 +1,249 @@
+import { MigrationLock } from '../src/lock';
+import { Context, LockRecord } from '../src/types';
+import * as os from 'os';
+
+// In-memory stand-in for the __clicksuite_lock table (ReplacingMergeTree keyed by owner)
+// Lock rows as the server stores them, with updated_at as the ReplacingMergeTree version
+type LockRow = LockRecord & { updated_at?: string };
+
+function createFakeDb(serverStart = '2024-01-01T00:00:00.000Z') {
+  const rows = new Map<string, LockRow>();
+  // The server clock that stamps claims, heartbeats and releases
+  let serverTime = Date.parse(serverStart);
+  const serverNow = () => new Date(serverTime++).toISOString();
+  // Like ReplacingMergeTree, keep only the version with the highest updated_at
+  const write = (row: LockRow) => {
+    const current = rows.get(row.owner);
+    if (!current || (row.updated_at ?? '') >= (current.updated_at ?? '')) {
+      rows.set(row.owner, row);
+    }
+  };
+  const rewrite = (owner: string, changes: Partial<LockRow>) => {
+    const current = rows.get(owner);
+    if (current && current.released === 0) {
+      const now = serverNow();
+      const next = current.updated_at && current.updated_at >= now ? new Date(Date.parse(current.updated_at) + 1).toISOString() : now;
+      write({ ...current, ...changes, updated_at: next });
+    }
+  };
+  return {
+    rows,
+    initLockTable: jest.fn().mockResolvedValue(undefined),
+    claimLock: jest.fn(async (record: LockRecord) => {
+      const now = serverNow();
+      write({ ...record, acquired_at: now, heartbeat_at: now, released: 0, updated_at: now });
+    }),
+    getLockRecords: jest.fn(async () =>
+      Array.from(rows.values())
+        .filter(r => r.released === 0)
+        .sort((a, b) => a.acquired_at.localeCompare(b.acquired_at) || a.owner.localeCompare(b.owner))
+    ),
+    releaseLock: jest.fn(async (owner: string) => {
+      rewrite(owner, { released: 1 });
+    }),
+    refreshLock: jest.fn(async (owner: string) => {
+      rewrite(owner, { heartbeat_at: serverNow() });
+    }),
+  };
+}
+
+function otherHolder(overrides: Partial<LockRecord> = {}): LockRecord {
+  return {
+    owner: 'other-owner',
+    host: 'another-host',
+    pid: 4242,
+    operation: 'migrate:up',
+    acquired_at: '2000-01-01T00:00:00.000Z',
+    heartbeat_at: '2000-01-01T00:00:00.000Z',
+    ttl_seconds: 300,
+    released: 0,
+    expired: 0,
+    ...overrides,
+  };
+}
+
+describe('MigrationLock', () => {
+  let context: Context;
+  let db: ReturnType<typeof createFakeDb>;
+
+  beforeEach(() => {
+    context = {
+      url: 'http://default@localhost:8123/test_db',
+      migrationsDir: '/tmp/migrations',
+      environment: 'test',
+      lockTimeout: 0.05,
+    };
+    db = createFakeDb();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should acquire a free lock and release it', async () => {
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.acquire();
+
+    expect(db.initLockTable).toHaveBeenCalled();
+    const held = await db.getLockRecords();
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ host: os.hostname(), pid: process.pid, operation: 'migrate:up', released: 0 });
+
+    await lock.release();
+
+    expect(await db.getLockRecords()).toHaveLength(0);
+  });
+
+  it('should time out while another live process holds the lock', async () => {
+    db.rows.set('other-owner', otherHolder());
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await expect(lock.acquire()).rejects.toThrow(/Timed out .* migrate:up on another-host \(PID 4242/);
+    expect(db.rows.get('other-owner')!.released).toBe(0);
+  });
+
+  it('should acquire the lock once the other holder releases it', async () => {
+    db.rows.set('other-owner', otherHolder());
+    const lock = new MigrationLock(db as any, { ...context, lockTimeout: 5 }, 'migrate:down');
+    setTimeout(() => db.rows.set('other-owner', otherHolder({ released: 1 })), 10);
+
+    await lock.acquire();
+
+    const held = await db.getLockRecords();
+    expect(held).toHaveLength(1);
+    expect(held[0].operation).toBe('migrate:down');
+    await lock.release();
+  });
+
+  it('should take over a lock whose heartbeat expired', async () => {
+    db.rows.set('other-owner', otherHolder({ expired: 1 }));
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.acquire();
+
+    expect(db.rows.get('other-owner')!.released).toBe(1);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Taking over stale migration lock'));
+    await lock.release();
+  });
+
+  it('should take over a lock held by a dead process on this host', async () => {
+    const killSpy = jest.spyOn(process, 'kill').mockImplementation(() => {
+      const error: any = new Error('no such process');
+      error.code = 'ESRCH';
+      throw error;
+    });
+    db.rows.set('other-owner', otherHolder({ host: os.hostname() }));
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.acquire();
+
+    expect(killSpy).toHaveBeenCalledWith(4242, 0);
+    expect(db.rows.get('other-owner')!.released).toBe(1);
+    killSpy.mockRestore();
+    await lock.release();
+  });
+
+  it('should withdraw its claim when a concurrent claim wins the race', async () => {
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+    // Simulate another process inserting an earlier claim between our check and our insert
+    const claim = db.claimLock.getMockImplementation()!;
+    db.claimLock.mockImplementationOnce(async (record: LockRecord) => {
+      db.rows.set('other-owner', otherHolder());
+      await claim(record);
+    });
+
+    await expect(lock.acquire()).rejects.toMatchObject({ code: 'LOCK_TIMEOUT', message: expect.stringContaining('Timed out') });
+
+    const live = await db.getLockRecords();
+    expect(live.map(r => r.owner)).toEqual(['other-owner']);
+  });
+
+  it('should stamp its claim with the server clock', async () => {
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.acquire();
+
+    expect(db.claimLock).toHaveBeenCalledTimes(1);
+    expect((await db.getLockRecords())[0].acquired_at).toBe('2024-01-01T00:00:00.000Z');
+    await lock.release();
+    expect(db.releaseLock).toHaveBeenCalledWith(db.claimLock.mock.calls[0][0].owner);
+  });
+
+  it('should release and withdraw when the client clock is behind the server', async () => {
+    db = createFakeDb('2099-01-01T00:00:00.000Z');
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.acquire();
+    await lock.release();
+
+    expect(await db.getLockRecords()).toHaveLength(0);
+
+    // A losing claim must not stay at the front of the queue after withdrawing
+    const loser = new MigrationLock(db as any, context, 'migrate:down');
+    const claim = db.claimLock.getMockImplementation()!;
+    db.claimLock.mockImplementationOnce(async (record: LockRecord) => {
+      db.rows.set('other-owner', otherHolder());
+      await claim(record);
+    });
+
+    await expect(loser.acquire()).rejects.toMatchObject({ code: 'LOCK_TIMEOUT' });
+    expect((await db.getLockRecords()).map(r => r.owner)).toEqual(['other-owner']);
+  });
+
+  it('should refresh its heartbeat with the server clock', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const lock = new MigrationLock(db as any, { ...context, lockTtl: 3 }, 'migrate:up');
+      const acquiring = lock.acquire();
+      await jest.advanceTimersByTimeAsync(1000);
+      await acquiring;
+      const owner = db.claimLock.mock.calls[0][0].owner;
+      const before = db.rows.get(owner)!.heartbeat_at;
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(db.refreshLock).toHaveBeenCalledWith(owner);
+      expect(db.rows.get(owner)!.heartbeat_at > before).toBe(true);
+      await lock.release();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should give way to an earlier claim that only becomes visible after its first read', async () => {
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+    // The other claim reached the server first but is not visible until the settle delay has passed
+    const read = db.getLockRecords.getMockImplementation()!;
+    db.getLockRecords
+      .mockImplementationOnce(read)
+      .mockImplementationOnce(read)
+      .mockImplementationOnce(async () => {
+        db.rows.set('other-owner', otherHolder({ acquired_at: '2023-12-31T23:59:59.999Z' }));
+        return read();
+      });
+
+    await expect(lock.acquire()).rejects.toMatchObject({ code: 'LOCK_TIMEOUT' });
+
+    const live = await db.getLockRecords();
+    expect(live.map(r => r.owner)).toEqual(['other-owner']);
+  });
+
+  it('should not write anything when releasing a lock that was never acquired', async () => {
+    const lock = new MigrationLock(db as any, context, 'migrate:up');
+
+    await lock.release();
+
+    expect(db.releaseLock).not.toHaveBeenCalled();
+  });
+
+  it('should force release every outstanding lock', async () => {
+    db.rows.set('other-owner', otherHolder());
+    db.rows.set('third-owner', otherHolder({ owner: 'third-owner' }));
+
+    const released = await MigrationLock.forceRelease(db as any);
+
+    expect(released).toHaveLength(2);
+    expect(await db.getLockRecords()).toHaveLength(0);
+  });
+});
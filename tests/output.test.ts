@@ -0,0 +1,127 @@
+import { ClicksuiteError, toClicksuiteError } from '../src/errors';
+import { formatDuration, serializeStatus, writeError, writeResult } from '../src/output';
+import { Context } from '../src/types';
+
+describe('output', () => {
+  let stdoutSpy: jest.SpyInstance;
+  const context: Context = {
+    url: 'http://default@localhost:8123/default',
+    migrationsDir: '/tmp/migrations',
+    environment: 'production',
+  };
+
+  const written = () => stdoutSpy.mock.calls.map(call => call[0]).join('');
+
+  beforeEach(() => {
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdoutSpy.mockRestore();
+  });
+
+  describe('writeResult', () => {
+    it('should write nothing in text mode', () => {
+      writeResult({ ...context, output: 'text' }, 'migrate:up', { applied: [] });
+      writeResult(context, 'migrate:up', { applied: [] });
+
+      expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it('should write a pretty-printed document in json mode', () => {
+      writeResult({ ...context, output: 'json' }, 'migrate:up', { applied: [] });
+
+      expect(JSON.parse(written())).toEqual({ command: 'migrate:up', status: 'ok', environment: 'production', applied: [] });
+      expect(written()).toContain('\n  ');
+    });
+
+    it('should write a single result record in ndjson mode', () => {
+      writeResult({ ...context, output: 'ndjson' }, 'schema:load', { loaded: ['20240101120000'] });
+
+      expect(written()).toBe('{"type":"result","command":"schema:load","status":"ok","environment":"production","loaded":["20240101120000"]}\n');
+    });
+  });
+
+  describe('writeError', () => {
+    it('should report the code and version of clicksuite errors', () => {
+      const error = new ClicksuiteError('MIGRATION_FAILED', 'SQL syntax error', { version: '20240101120000' });
+      writeError({ ...context, output: 'json' }, 'migrate:up', error);
+
+      expect(JSON.parse(written())).toEqual({
+        command: 'migrate:up',
+        status: 'error',
+        environment: 'production',
+        error: { code: 'MIGRATION_FAILED', message: 'SQL syntax error', version: '20240101120000' },
+      });
+    });
+
+    it('should report other errors as UNEXPECTED_ERROR', () => {
+      writeError({ ...context, output: 'ndjson' }, 'migrate:status', new Error('Connection refused'), { hint: 'check the URL' });
+
+      expect(JSON.parse(written())).toEqual({
+        type: 'result',
+        command: 'migrate:status',
+        status: 'error',
+        environment: 'production',
+        hint: 'check the URL',
+        error: { code: 'UNEXPECTED_ERROR', message: 'Connection refused' },
+      });
+    });
+
+    it('should redact the secrets of the context from the message', () => {
+      writeError({ ...context, password: 's3cret', output: 'json' }, 'migrate:up', new Error('Authentication failed for password s3cret'));
+
+      expect(JSON.parse(written()).error.message).toBe('Authentication failed for password ****');
+    });
+  });
+
+  describe('serializeStatus', () => {
+    it('should keep the state fields and drop resolved SQL', () => {
+      const serialized = serializeStatus({
+        version: '20240101120000',
+        name: 'create_users',
+        filePath: '/tmp/migrations/20240101120000_create_users.sql',
+        upSQL: 'CREATE TABLE users',
+        querySettings: { max_execution_time: 60 },
+        state: 'PARTIAL',
+        completedStatements: 2,
+      });
+
+      expect(serialized).toEqual({
+        version: '20240101120000',
+        name: 'create_users',
+        filePath: '/tmp/migrations/20240101120000_create_users.sql',
+        state: 'PARTIAL',
+        appliedAt: null,
+        checksumMismatch: false,
+        completedStatements: 2,
+      });
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should show milliseconds below one second and seconds above', () => {
+      expect(formatDuration(850)).toBe('850ms');
+      expect(formatDuration(2500)).toBe('2.5s');
+    });
+  });
+
+  describe('toClicksuiteError', () => {
+    it('should wrap plain errors with a code, version and cause', () => {
+      const cause = new Error('Table already exists');
+      const error = toClicksuiteError(cause, 'MIGRATION_FAILED', '20240101120000');
+
+      expect(error).toBeInstanceOf(ClicksuiteError);
+      expect(error).toMatchObject({ code: 'MIGRATION_FAILED', message: 'Table already exists', version: '20240101120000', cause });
+      expect(error.stack).toBe(cause.stack);
+    });
+
+    it('should keep the code of errors that already have one', () => {
+      const original = new ClicksuiteError('LOCK_TIMEOUT', 'Timed out');
+
+      expect(toClicksuiteError(original, 'MIGRATION_FAILED', '20240101120000')).toBe(original);
+      expect(original.code).toBe('LOCK_TIMEOUT');
+      expect(original.version).toBe('20240101120000');
+    });
+  });
+});
@@ -0,0 +1,381 @@
+import { presentDown, presentGenerated, presentHistory, presentRedo, presentReset, presentSchemaDiff, presentSchemaLoad, presentSquash, presentStatus, presentUnlock, presentUp } from '../src/presenter';
+import { Context, DownResult, UpResult } from '../src/types';
+
+describe('presenter', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+  const context: Context = {
+    url: 'http://default@localhost:8123/default',
+    migrationsDir: '/tmp/migrations',
+    environment: 'test',
+  };
+
+  const logged = () => logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+  const warned = () => warnSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+  const upResult = (overrides: Partial<UpResult> = {}): UpResult => ({
+    dryRun: false, applied: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' }, ...overrides,
+  });
+
+  const downResult = (overrides: Partial<DownResult> = {}): DownResult => ({
+    dryRun: false, cancelled: false, rolledBack: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' }, ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logSpy = jest.spyOn(console, 'log').mockImplementation();
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('presentStatus', () => {
+    it('should print each migration with its state', () => {
+      presentStatus(context, [
+        { version: '20240101120000', name: 'create_users', filePath: 'a.yml', state: 'APPLIED', appliedAt: '2024-01-01T12:00:00Z' },
+        { version: '20240102120000', name: 'add_index', filePath: 'b.yml', state: 'PENDING' },
+      ]);
+
+      expect(logged()).toContain('Migration Status (Env: test, Migrations DB: default)');
+      expect(logged()).toMatch(/APPLIED\s+20240101120000 - create_users/);
+      expect(logged()).toMatch(/PENDING\s+20240102120000 - add_index/);
+    });
+
+    it('should show partially applied migrations with their progress', () => {
+      presentStatus(context, [
+        { version: '20240101120000', name: 'create_tables', filePath: 'a.yml', state: 'PARTIAL', completedStatements: 1, upSQL: 'CREATE TABLE a; CREATE TABLE b; CREATE TABLE c' },
+      ]);
+
+      expect(logged()).toContain('PARTIAL');
+      expect(logged()).toContain('1/3 statements executed');
+    });
+
+    it('should mark modified migrations and point to migrate:verify', () => {
+      presentStatus(context, [
+        { version: '20240101120000', name: 'create_users', filePath: 'a.yml', state: 'APPLIED', checksumMismatch: true },
+      ]);
+
+      expect(logged()).toContain('MODIFIED');
+      expect(warned()).toContain('1 applied migration(s) were modified after being applied');
+      expect(warned()).toContain('migrate:verify');
+    });
+
+    it('should report when there are no migrations', () => {
+      presentStatus(context, []);
+
+      expect(logged()).toContain('No migrations found locally or in the database.');
+    });
+  });
+
+  describe('presentUp', () => {
+    it('should show the dry-run plan of each migration', () => {
+      presentUp({ ...context, dryRun: true }, upResult({
+        dryRun: true,
+        planned: [{
+          version: '20240101120000',
+          name: 'create_users',
+          filePath: '/tmp/migrations/20240101120000_create_users.yml',
+          database: 'test_db',
+          table: 'users',
+          statements: ['CREATE TABLE users', 'INSERT INTO users VALUES (1)'],
+        }],
+      }));
+
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN: The following 1 migration(s) would be applied:'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN: Migration 20240101120000 - create_users'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Environment: test'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Database: test_db'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('Table: users'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('SQL to execute (2 queries):'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE users;'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO users VALUES (1);'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN COMPLETE: 1 migration(s) would be applied (no changes made)'));
+    });
+
+    it('should show the SQL a script migration would execute and where a partial migration would resume', () => {
+      presentUp({ ...context, dryRun: true }, upResult({
+        dryRun: true,
+        planned: [
+          { version: '20240101120000', name: 'backfill', filePath: '/tmp/migrations/20240101120000_backfill.ts', statements: ['OPTIMIZE TABLE events FINAL'] },
+          { version: '20240102120000', name: 'seed', filePath: '/tmp/migrations/20240102120000_seed.yml', statements: ['INSERT INTO t VALUES (1)', 'INSERT INTO t VALUES (2)'], resumeFrom: 2 },
+        ],
+      }));
+
+      expect(logged()).toContain('SQL executed by up() in 20240101120000_backfill.ts:');
+      expect(logged()).toContain('OPTIMIZE TABLE events FINAL;');
+      expect(logged()).toContain('Partially applied: would offer to resume from statement 2');
+    });
+
+    it('should show skipped migrations', () => {
+      const skipped = [{ version: '20240101120000', name: 'create_users', reason: "No 'up' SQL found for environment 'test'." }];
+
+      presentUp({ ...context, dryRun: true }, upResult({ dryRun: true, skipped }));
+      presentUp(context, upResult({ skipped }));
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Would skip 20240101120000: No 'up' SQL found for environment 'test'."));
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Skipping 20240101120000: No 'up' SQL found for environment 'test'."));
+    });
+
+    it('should summarize applied migrations and the schema file update', () => {
+      presentUp(context, upResult({
+        applied: [{ version: '20240101120000', name: 'create_users', durationMs: 40 }],
+        durationMs: 1500,
+        schemaUpdate: { status: 'updated', path: '/tmp/migrations/schema.sql' },
+      }));
+
+      expect(logged()).toContain('All selected UP migrations applied successfully! (1 migration(s) in 1.5s)');
+      expect(logged()).toContain('Schema file updated');
+      expect(logged()).not.toContain('/tmp/migrations/schema.sql');
+    });
+
+    it('should list statement timings and flag statements over the slow threshold', () => {
+      presentUp({ ...context, slowStatementThreshold: 2 }, upResult({
+        applied: [{
+          version: '20240101120000',
+          name: 'backfill_users',
+          durationMs: 5200,
+          statements: [
+            { index: 0, statement: 'CREATE TABLE users_new (id UInt64) ENGINE = MergeTree ORDER BY id', durationMs: 200, queryId: 'q-0' },
+            { index: 1, statement: 'INSERT INTO users_new SELECT id FROM users', durationMs: 5000, queryId: 'q-1' },
+          ],
+        }],
+        durationMs: 5200,
+      }));
+
+      expect(logged()).toContain('Statement timings:');
+      expect(logged()).toMatch(/200ms\s+20240101120000 #1\s+CREATE TABLE users_new/);
+      expect(logged()).not.toMatch(/#1 .*SLOW/);
+      expect(logged()).toMatch(/5\.0s\s+20240101120000 #2\s+INSERT INTO users_new SELECT id FROM users\s+⚠️  SLOW \(query_id: q-1\)/);
+      expect(warned()).toContain('1 statement(s) took longer than 2s.');
+    });
+
+    it('should show the schema file path in verbose mode and warn when the update failed', () => {
+      presentUp({ ...context, verbose: true }, upResult({ schemaUpdate: { status: 'updated', path: '/tmp/migrations/schema.sql' } }));
+      presentUp(context, upResult({ schemaUpdate: { status: 'failed', error: 'Permission denied' } }));
+
+      expect(logged()).toContain('Schema file updated: /tmp/migrations/schema.sql');
+      expect(warned()).toContain('Could not update schema file: Permission denied');
+    });
+
+    it('should print nothing when there was nothing to do', () => {
+      presentUp(context, upResult());
+
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('presentDown', () => {
+    it('should show the dry-run plan of each rollback', () => {
+      presentDown({ ...context, dryRun: true }, downResult({
+        dryRun: true,
+        planned: [{
+          version: '20240101120000',
+          name: 'create_users',
+          filePath: '/tmp/migrations/20240101120000_create_users.yml',
+          database: 'test_db',
+          table: 'users',
+          statements: ['DROP TABLE users'],
+        }],
+      }));
+
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN: The following 1 migration(s) would be rolled back'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN: Rolling back 20240101120000 - create_users'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('SQL to execute (1 query):'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DROP TABLE users;'));
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('DRY RUN COMPLETE: 1 migration(s) would be rolled back (no changes made)'));
+    });
+
+    it('should show rollbacks skipped for lack of down SQL', () => {
+      presentDown({ ...context, dryRun: true }, downResult({
+        dryRun: true,
+        skipped: [{ version: '20240101120000', name: 'create_users', reason: "No 'down' SQL found for environment 'test'." }],
+      }));
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("Would skip 20240101120000: No 'down' SQL found for environment 'test'."));
+    });
+
+    it('should summarize rolled back migrations', () => {
+      presentDown(context, downResult({ rolledBack: [{ version: '20240101120000', name: 'create_users', durationMs: 5 }], durationMs: 5 }));
+
+      expect(logged()).toContain('Selected DOWN migrations completed successfully! (1 migration(s) in 5ms)');
+    });
+  });
+
+  describe('presentHistory', () => {
+    const record = {
+      version: '20240101120000',
+      name: 'create_users',
+      action: 'apply' as const,
+      outcome: 'success' as const,
+      environment: 'production',
+      clicksuite_version: '1.7.4',
+      os_user: 'deploy',
+      host: 'ci-runner',
+      git_commit: '0123456789abcdef0123456789abcdef01234567',
+      duration_ms: 1500,
+      statement_count: 2,
+      error: '',
+      created_at: '2024-01-01 12:00:00.000000',
+    };
+
+    it('should print each attempt with who ran it and from which commit', () => {
+      presentHistory(context, [record, { ...record, action: 'rollback', outcome: 'failure', statement_count: 0, error: 'Table is in use' }]);
+
+      expect(logged()).toContain('apply success');
+      expect(logged()).toContain('20240101120000 - create_users');
+      expect(logged()).toContain('(1.5s, 2 statement(s), production, deploy@ci-runner 0123456789ab, clicksuite 1.7.4)');
+      expect(logged()).toContain('rollback failure');
+      expect(logged()).toContain('Table is in use');
+    });
+
+    it('should say when nothing was recorded', () => {
+      presentHistory(context, []);
+
+      expect(logged()).toContain('No migration history recorded yet.');
+    });
+  });
+
+  describe('presentRedo', () => {
+    it('should summarize the rollback and the re-applied migrations', () => {
+      presentRedo(context, {
+        dryRun: false,
+        cancelled: false,
+        down: downResult({ rolledBack: [{ version: '20240101120000', name: 'create_users', durationMs: 2 }], durationMs: 2 }),
+        up: upResult({ applied: [{ version: '20240101120000', name: 'create_users', durationMs: 3 }], durationMs: 3 }),
+        durationMs: 5,
+        schemaUpdate: { status: 'updated', path: '/tmp/migrations/schema.sql' },
+      });
+
+      expect(logged()).toContain('Selected DOWN migrations completed successfully! (1 migration(s) in 2ms)');
+      expect(logged()).toContain('All selected UP migrations applied successfully! (1 migration(s) in 3ms)');
+      expect(logged()).toContain('Schema file updated');
+    });
+
+    it('should stop after the rollback when it was cancelled', () => {
+      presentRedo(context, { dryRun: false, cancelled: true, down: downResult({ cancelled: true }), up: upResult(), durationMs: 0, schemaUpdate: { status: 'skipped' } });
+
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('presentReset', () => {
+    it('should summarize the reset unless it was cancelled', () => {
+      presentReset(context, { cancelled: true, rolledBack: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' } });
+      expect(logSpy).not.toHaveBeenCalled();
+
+      presentReset(context, {
+        cancelled: false,
+        rolledBack: [{ version: '20240102120000', name: 'add_index', durationMs: 3 }],
+        skipped: [{ version: '20240101120000', name: 'N/A', reason: "No local file or downSQL found for env 'test'." }],
+        durationMs: 3,
+        schemaUpdate: { status: 'skipped' },
+      });
+      expect(warned()).toContain('Skipping rollback of 20240101120000');
+      expect(logged()).toContain('Database migrations have been reset successfully! (1 migration(s) rolled back in 3ms)');
+    });
+  });
+
+  describe('presentSchemaLoad', () => {
+    it('should list loaded and skipped versions with totals', () => {
+      presentSchemaLoad(context, { loaded: ['20240102120000'], skipped: ['20240101120000'], failed: [], created: [], schemaUpdate: { status: 'skipped' } });
+
+      expect(logged()).toContain('Skipping 20240101120000: Already marked as active in DB.');
+      expect(logged()).toContain('Loaded 20240102120000 into migrations table as APPLIED.');
+      expect(logged()).toContain('1 migration(s) newly marked as APPLIED.');
+      expect(logged()).toContain('1 migration(s) were already APPLIED and skipped.');
+    });
+
+    it('should count the objects created from schema.sql', () => {
+      presentSchemaLoad(context, { loaded: [], skipped: [], failed: [], created: ['table/app.users', 'view/app.users_mv'], schemaUpdate: { status: 'skipped' } });
+
+      expect(logged()).toContain('Created 2 object(s) from schema.sql.');
+    });
+  });
+
+  describe('presentSchemaDiff', () => {
+    it('should confirm when the database matches schema.sql', () => {
+      presentSchemaDiff(context, { schemaPath: '/tmp/migrations/schema.sql', differences: [] });
+
+      expect(logged()).toContain('The database schema matches schema.sql (Env: test).');
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should print the diff of each object and count the changes', () => {
+      presentSchemaDiff(context, {
+        schemaPath: '/tmp/migrations/schema.sql',
+        differences: [
+          { type: 'table', name: 'app.users', change: 'changed', diff: '--- schema.sql (table/app.users)\n+++ database (table/app.users)\n@@ -1,1 +1,1 @@\n-ENGINE = MergeTree\n+ENGINE = ReplacingMergeTree' },
+          { type: 'view', name: 'app.hotfix_mv', change: 'added', diff: '--- /dev/null\n+++ database (view/app.hotfix_mv)\n@@ -0,0 +1,1 @@\n+CREATE MATERIALIZED VIEW app.hotfix_mv AS SELECT 1' },
+        ],
+      });
+
+      expect(logged()).toContain('Table app.users (changed)');
+      expect(logged()).toContain('-ENGINE = MergeTree');
+      expect(logged()).toContain('+ENGINE = ReplacingMergeTree');
+      expect(logged()).toContain('Materialized view app.hotfix_mv (added)');
+      expect(warned()).toContain('The database schema differs from schema.sql: 1 added, 0 removed, 1 changed.');
+    });
+  });
+
+  describe('presentSquash', () => {
+    const squashResult = {
+      dryRun: false,
+      cancelled: false,
+      version: '20240102120000',
+      baselinePath: '/tmp/migrations/20240102120000_baseline.yml',
+      squashed: ['20240101120000', '20240102120000'],
+      archived: ['/tmp/migrations/archive/20240101120000_create-users.yml', '/tmp/migrations/archive/20240102120000_add-email.yml'],
+      objects: ['table/app.users'],
+    };
+
+    it('should report the baseline and the archived files', () => {
+      presentSquash(context, squashResult);
+
+      expect(logged()).toContain('Squashed 2 migration(s) into /tmp/migrations/20240102120000_baseline.yml (1 object(s)).');
+      expect(logged()).toContain('Moved 2 file(s) to /tmp/migrations/archive');
+      expect(logged()).toContain("The baseline holds the SQL of the 'test' environment.");
+    });
+
+    it('should list the files a dry run would archive', () => {
+      presentSquash(context, { ...squashResult, dryRun: true });
+
+      expect(logged()).toContain('DRY RUN: 2 migration(s) would be squashed into /tmp/migrations/20240102120000_baseline.yml');
+      expect(logged()).toContain('Would archive 20240101120000_create-users.yml');
+      expect(logged()).not.toContain('Squashed');
+    });
+
+    it('should print nothing when there was nothing to squash', () => {
+      presentSquash(context, { dryRun: false, cancelled: false, squashed: [], archived: [], objects: [] });
+
+      expect(logSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('presentUnlock', () => {
+    const lockRecord = {
+      owner: 'abc', host: 'deploy-1', pid: 1234, operation: 'migrate:up',
+      acquired_at: '2024-01-01 12:00:00.000', heartbeat_at: '2024-01-01 12:00:00.000', ttl_seconds: 300, released: 0, expired: 0,
+    };
+
+    it('should report whether the lock was released', () => {
+      presentUnlock({ held: [], released: [], cancelled: false });
+      presentUnlock({ held: [lockRecord], released: [], cancelled: true });
+      presentUnlock({ held: [lockRecord], released: [lockRecord], cancelled: false });
+
+      expect(logged()).toContain('No migration lock is currently held.');
+      expect(logged()).toContain('Unlock cancelled by user.');
+      expect(logged()).toContain('Released 1 migration lock record(s).');
+    });
+  });
+
+  describe('presentGenerated', () => {
+    it('should print the path of the new migration file', () => {
+      presentGenerated('/tmp/migrations/20240101120000_create_users.yml');
+
+      expect(logged()).toContain('Generated new migration file: /tmp/migrations/20240101120000_create_users.yml');
+    });
+  });
+});
@@ -1,12 +1,17 @@
 import { Runner } from '../src/runner';
 import { Db } from '../src/db';
+import { MigrationLock } from '../src/lock';
 import { Context } from '../src/types';
+import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import yaml from 'js-yaml';
 import inquirer from 'inquirer';
 
 jest.mock('../src/db');
+jest.mock('../src/lock');
 jest.mock('fs/promises');
 jest.mock('js-yaml');
 jest.mock('inquirer');
@@ -49,6 +54,18 @@ describe('Runner', () => {
       getDatabaseSchema: jest.fn(),
       clearMigrationsTable: jest.fn(),
       optimizeMigrationTable: jest.fn(),
+      initLockTable: jest.fn(),
+      getLockRecords: jest.fn(),
+      claimLock: jest.fn(),
+      releaseLock: jest.fn(),
+      refreshLock: jest.fn(),
+      getMigrationSteps: jest.fn().mockResolvedValue([]),
+      markStatementApplied: jest.fn(),
+      clearMigrationSteps: jest.fn(),
+      recordMigrationHistory: jest.fn(),
+      getMigrationHistory: jest.fn(),
+      getReplicaTables: jest.fn(),
+      query: jest.fn(),
       close: jest.fn(),
     } as any;
 
@@ -102,6 +119,103 @@ describe('Runner', () => {
     });
   });
 
+  describe('migration lock', () => {
+    const MockedLock = MigrationLock as jest.MockedClass<typeof MigrationLock>;
+
+    beforeEach(() => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([]);
+    });
+
+    it.each([
+      ['up', 'migrate:up'],
+      ['down', 'migrate:down'],
+      ['redo', 'migrate:redo'],
+      ['schemaLoad', 'schema:load'],
+    ])('should hold the lock while running %s', async (method, operation) => {
+      await (runner as any)[method]();
+
+      expect(MockedLock).toHaveBeenCalledWith(mockDb, context, operation);
+      const lock = MockedLock.mock.instances[0];
+      expect(lock.acquire).toHaveBeenCalled();
+      expect(lock.release).toHaveBeenCalled();
+    });
+
+    it('should release the lock when the command fails', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'broken', filePath: '/tmp/migrations/broken.yml', upSQL: 'INVALID SQL' }
+      ]);
+      mockDb.executeMigration.mockRejectedValue(new Error('SQL syntax error'));
+
+      await expect(runner.up()).rejects.toThrow('SQL syntax error');
+
+      expect(MockedLock.mock.instances[0].release).toHaveBeenCalled();
+    });
+
+    it('should not run the command when the lock cannot be acquired', async () => {
+      MockedLock.prototype.acquire.mockRejectedValueOnce(new Error('Timed out'));
+
+      await expect(runner.up()).rejects.toThrow('Timed out');
+
+      expect(runner['_getLocalMigrations']).not.toHaveBeenCalled();
+    });
+
+    it('should not take the lock in dry run mode', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue([]);
+
+      await dryRunner.up();
+
+      expect(MockedLock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlock', () => {
+    const MockedLock = MigrationLock as jest.MockedClass<typeof MigrationLock>;
+    const lockRecord = {
+      owner: 'abc',
+      host: 'deploy-1',
+      pid: 1234,
+      operation: 'migrate:up',
+      acquired_at: '2024-01-01 12:00:00.000',
+      heartbeat_at: '2024-01-01 12:00:00.000',
+      ttl_seconds: 300,
+      released: 0,
+      expired: 0,
+    };
+
+    it('should report when no lock is held', async () => {
+      mockDb.getLockRecords.mockResolvedValue([]);
+
+      await runner.unlock();
+
+      expect(MockedLock.forceRelease).not.toHaveBeenCalled();
+    });
+
+    it('should release stale locks without confirmation', async () => {
+      mockDb.getLockRecords.mockResolvedValue([lockRecord]);
+      (MockedLock.isStale as jest.Mock).mockReturnValue(true);
+      (MockedLock.forceRelease as jest.Mock).mockResolvedValue([lockRecord]);
+
+      await runner.unlock();
+
+      expect(mockInquirer.prompt).not.toHaveBeenCalled();
+      expect(MockedLock.forceRelease).toHaveBeenCalledWith(mockDb);
+    });
+
+    it('should ask for confirmation before releasing a live lock', async () => {
+      mockDb.getLockRecords.mockResolvedValue([lockRecord]);
+      (MockedLock.isStale as jest.Mock).mockReturnValue(false);
+      mockInquirer.prompt.mockResolvedValue({ confirmation: false });
+
+      await runner.unlock();
+
+      expect(mockInquirer.prompt).toHaveBeenCalled();
+      expect(MockedLock.forceRelease).not.toHaveBeenCalled();
+    });
+  });
+
   describe('generate', () => {
     beforeEach(() => {
       jest.spyOn(Date.prototype, 'toISOString').mockReturnValue('2024-01-01T12:00:00.000Z');
@@ -142,12 +256,38 @@ describe('Runner', () => {
       expect(filePath).not.toContain('$@!');
     });
 
+    it('should generate a plain SQL migration with --format sql', async () => {
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      await runner.generate('create events', 'sql');
+
+      const [filePath, content] = mockFs.writeFile.mock.calls[0] as [string, string];
+      expect(filePath).toBe(path.join('/tmp/migrations', '20240101120000_create-events.sql'));
+      expect(content).toContain('-- +clicksuite Up');
+      expect(content).toContain('-- +clicksuite Down');
+      expect(content).toContain('-- +clicksuite table: your_table_name');
+    });
+
+    it('should generate a typed TypeScript migration with --format ts', async () => {
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      await runner.generate('backfill events', 'ts');
+
+      const [filePath, content] = mockFs.writeFile.mock.calls[0] as [string, string];
+      expect(filePath).toBe(path.join('/tmp/migrations', '20240101120000_backfill-events.ts'));
+      expect(content).toContain("import type { MigrationHelper } from 'clicksuite';");
+      expect(content).toContain('export async function up(ctx: MigrationHelper): Promise<void>');
+      expect(content).toContain('export async function down(ctx: MigrationHelper): Promise<void>');
+    });
+
     it('should handle file generation errors', async () => {
       const error = new Error('Write failed');
       mockFs.mkdir.mockResolvedValue(undefined);
       mockFs.writeFile.mockRejectedValue(error);
 
-      await runner.generate('test migration');
+      await expect(runner.generate('test migration')).rejects.toThrow('Write failed');
 
       expect(mockFs.writeFile).toHaveBeenCalled();
     });
@@ -183,6 +323,36 @@ describe('Runner', () => {
       });
     });
 
+    it('should read the versions a baseline replaces', async () => {
+      mockFs.readdir.mockResolvedValue(['20240102120000_baseline.yml'] as any);
+      mockFs.readFile.mockResolvedValue('yaml content');
+      mockYaml.load.mockReturnValue({
+        version: '20240102120000',
+        name: 'baseline',
+        squashes: ['20240101120000', '20240102120000'],
+        test: { up: 'CREATE TABLE IF NOT EXISTS app.users (id UInt64) ENGINE = Memory;\n' },
+      });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations[0].squashes).toEqual(['20240101120000', '20240102120000']);
+    });
+
+    it('should read a migration opting out of waiting for its mutations', async () => {
+      mockFs.readdir.mockResolvedValue(['20240102120000_backfill.yml'] as any);
+      mockFs.readFile.mockResolvedValue('yaml content');
+      mockYaml.load.mockReturnValue({
+        version: '20240102120000',
+        name: 'backfill',
+        wait_for_mutations: false,
+        test: { up: 'ALTER TABLE events UPDATE country = upper(country) WHERE 1' },
+      });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations[0].waitForMutations).toBe(false);
+    });
+
     it('should handle directory not found', async () => {
       const error = new Error('ENOENT');
       (error as any).code = 'ENOENT';
@@ -222,6 +392,100 @@ describe('Runner', () => {
       expect(migrations).toEqual([]);
     });
 
+    it('should read single-file SQL migrations', async () => {
+      mockFs.readdir.mockResolvedValue(['20240101120000_create-events.sql'] as any);
+      mockFs.readFile.mockResolvedValue([
+        '-- +clicksuite table: events',
+        '-- +clicksuite settings: max_execution_time=60',
+        '-- +clicksuite Up',
+        'CREATE TABLE {table} (id UInt64) ENGINE = Memory',
+        '-- +clicksuite Down',
+        'DROP TABLE {table}',
+      ].join('\n') as any);
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations).toEqual([{
+        version: '20240101120000',
+        name: 'create events',
+        filePath: '/tmp/migrations/20240101120000_create-events.sql',
+        table: 'events',
+        database: undefined,
+        upSQL: 'CREATE TABLE events (id UInt64) ENGINE = Memory',
+        downSQL: 'DROP TABLE events',
+        querySettings: { max_execution_time: 60 },
+      }]);
+      expect(mockYaml.load).not.toHaveBeenCalled();
+    });
+
+    it('should read .up.sql/.down.sql pairs alongside YAML migrations', async () => {
+      mockFs.readdir.mockResolvedValue([
+        '20240102120000_add_index.down.sql',
+        '20240102120000_add_index.up.sql',
+        '20240101120000_create_users.yml',
+      ] as any);
+      mockFs.readFile.mockImplementation(async (filePath: any) => {
+        if (filePath.endsWith('.up.sql')) return 'ALTER TABLE users ADD INDEX idx id TYPE minmax' as any;
+        if (filePath.endsWith('.down.sql')) return 'ALTER TABLE users DROP INDEX idx' as any;
+        return 'yaml content' as any;
+      });
+      mockYaml.load.mockReturnValue({ test: { up: 'CREATE TABLE users', down: 'DROP TABLE users' } });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations.map(m => m.version)).toEqual(['20240101120000', '20240102120000']);
+      expect(migrations[1]).toMatchObject({
+        name: 'add_index',
+        filePath: '/tmp/migrations/20240102120000_add_index.up.sql',
+        upSQL: 'ALTER TABLE users ADD INDEX idx id TYPE minmax',
+        downSQL: 'ALTER TABLE users DROP INDEX idx',
+      });
+    });
+
+    it('should resolve no SQL for environments excluded by the environments directive', async () => {
+      mockFs.readdir.mockResolvedValue(['20240101120000_prod_only.sql'] as any);
+      mockFs.readFile.mockResolvedValue('-- +clicksuite environments: production\n-- +clicksuite Up\nSELECT 1\n-- +clicksuite Down\nSELECT 2' as any);
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations).toHaveLength(1);
+      expect(migrations[0].upSQL).toBeUndefined();
+      expect(migrations[0].downSQL).toBeUndefined();
+    });
+
+    it('should skip a .down.sql file without a matching .up.sql file', async () => {
+      mockFs.readdir.mockResolvedValue(['20240101120000_orphan.down.sql'] as any);
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations).toEqual([]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('20240101120000_orphan.down.sql'),
+        'Missing the matching .up.sql file.'
+      );
+    });
+
+    it('should apply default settings under each migration\'s own settings', async () => {
+      const settingsRunner = new Runner({ ...context, defaultSettings: { max_execution_time: 300, mutations_sync: 1 } });
+      mockFs.readdir.mockResolvedValue(['20240101120000_a.sql'] as any);
+      mockFs.readFile.mockResolvedValue('-- +clicksuite settings: mutations_sync=2\n-- +clicksuite Up\nSELECT 1' as any);
+
+      const migrations = await settingsRunner['_getLocalMigrations']();
+
+      expect(migrations[0].querySettings).toEqual({ max_execution_time: 300, mutations_sync: 2 });
+    });
+
+    it('should ignore migrations that share a version', async () => {
+      mockFs.readdir.mockResolvedValue(['20240101120000_a.yml', '20240101120000_b.sql', '20240102120000_c.sql'] as any);
+      mockFs.readFile.mockResolvedValue('-- +clicksuite Up\nSELECT 1' as any);
+      mockYaml.load.mockReturnValue({ test: { up: 'SELECT 1' } });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations.map(m => m.version)).toEqual(['20240102120000']);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Duplicate migration version 20240101120000'));
+    });
+
     it('should use development as fallback environment', async () => {
       const mockFiles = ['20240101120000_test.yml'];
       const mockYamlContent = {
@@ -273,7 +537,7 @@ describe('Runner', () => {
       jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([]);
       mockDb.getAllMigrationRecords.mockResolvedValue([]);
 
-      await runner.status();
+      await expect(runner.status()).resolves.toEqual([]);
 
       expect(runner['_getLocalMigrations']).toHaveBeenCalled();
     });
@@ -297,11 +561,67 @@ describe('Runner', () => {
       mockDb.getAppliedMigrations.mockResolvedValue(mockAppliedMigrations);
       mockDb.executeMigration.mockResolvedValue(undefined);
       mockDb.markMigrationApplied.mockResolvedValue(undefined);
+      mockDb.getDatabaseSchema.mockResolvedValue({});
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      const result = await runner.up();
+
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE users', undefined, expect.objectContaining({ startAt: 0 }));
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240101120000', expect.any(String));
+      expect(result).toEqual({
+        dryRun: false,
+        applied: [{ version: '20240101120000', name: 'create_users', durationMs: expect.any(Number), statements: [] }],
+        planned: [],
+        skipped: [],
+        durationMs: expect.any(Number),
+        schemaUpdate: { status: 'updated', path: path.join('/tmp/migrations', 'schema.sql') },
+      });
+    });
+
+    it('should stream a record per applied migration in ndjson output mode', async () => {
+      const ndjsonRunner = new Runner({ ...context, output: 'ndjson' });
+      jest.spyOn(ndjsonRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', upSQL: 'CREATE TABLE users' }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      const writeSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await ndjsonRunner.up();
+
+      const records = writeSpy.mock.calls.map(call => JSON.parse(call[0] as string));
+      writeSpy.mockRestore();
+      expect(records).toEqual([
+        { type: 'migration', action: 'applied', version: '20240101120000', name: 'create_users', durationMs: expect.any(Number), statements: [] },
+      ]);
+    });
+
+    it('should report how long each statement took and its query_id', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', upSQL: 'CREATE TABLE users; CREATE TABLE users_copy' }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockImplementation(async (_sql: string, _settings: any, options: any) => {
+        await options.onStatementComplete(0, 2, 'CREATE TABLE users', { durationMs: 120, queryId: 'q-users' });
+        await options.onStatementComplete(1, 2, 'CREATE TABLE users_copy', { durationMs: 3400, queryId: 'q-users-copy' });
+      });
+
+      const result = await runner.up();
+
+      expect(result.applied[0].statements).toEqual([
+        { index: 0, statement: 'CREATE TABLE users', durationMs: 120, queryId: 'q-users' },
+        { index: 1, statement: 'CREATE TABLE users_copy', durationMs: 3400, queryId: 'q-users-copy' },
+      ]);
+    });
+
+    it('should pass the migration\'s mutation opt-out to executeMigration', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'backfill', filePath: '/tmp/migrations/test.yml', upSQL: 'ALTER TABLE events DELETE WHERE 1', waitForMutations: false }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
 
       await runner.up();
 
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE users', undefined);
-      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240101120000');
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('ALTER TABLE events DELETE WHERE 1', undefined, expect.objectContaining({ waitForMutations: false }));
     });
 
     it('should skip already applied migrations', async () => {
@@ -351,7 +671,7 @@ describe('Runner', () => {
       await runner.up('20240101120000');
 
       expect(mockDb.executeMigration).toHaveBeenCalledTimes(1);
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE first', undefined);
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE first', undefined, expect.objectContaining({ startAt: 0 }));
     });
 
     it('should handle migration execution errors', async () => {
@@ -369,7 +689,12 @@ describe('Runner', () => {
       const executionError = new Error('SQL syntax error');
       mockDb.executeMigration.mockRejectedValue(executionError);
 
-      await expect(runner.up()).rejects.toThrow('SQL syntax error');
+      await expect(runner.up()).rejects.toMatchObject({
+        message: 'SQL syntax error',
+        code: 'MIGRATION_FAILED',
+        version: '20240101120000',
+        cause: executionError,
+      });
     });
 
     it('should skip migrations without upSQL', async () => {
@@ -390,6 +715,73 @@ describe('Runner', () => {
       expect(mockDb.executeMigration).not.toHaveBeenCalled();
       expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
     });
+
+    describe('out of order migrations', () => {
+      // 20240102120000 comes from a feature branch merged after 20240103120000 was applied
+      const localMigrations = [
+        { version: '20240101120000', name: 'first', filePath: '/tmp/migrations/first.yml', upSQL: 'CREATE TABLE first' },
+        { version: '20240102120000', name: 'from_branch', filePath: '/tmp/migrations/from_branch.yml', upSQL: 'CREATE TABLE from_branch' },
+        { version: '20240103120000', name: 'third', filePath: '/tmp/migrations/third.yml', upSQL: 'CREATE TABLE third' },
+        { version: '20240104120000', name: 'fourth', filePath: '/tmp/migrations/fourth.yml', upSQL: 'CREATE TABLE fourth' },
+      ];
+      let warnSpy: jest.SpyInstance;
+
+      const runnerWith = (outOfOrder?: 'error' | 'warn' | 'allow') => {
+        const policyRunner = new Runner({ ...context, outOfOrder, skipSchemaUpdate: true });
+        jest.spyOn(policyRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+        return policyRunner;
+      };
+      const warnings = () => warnSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+      beforeEach(() => {
+        mockDb.getAppliedMigrations.mockResolvedValue([
+          { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' },
+          { version: '20240103120000', active: 1, created_at: '2024-01-03T12:00:00Z' },
+        ]);
+        mockDb.executeMigration.mockResolvedValue(undefined);
+        mockDb.getMigrationSteps.mockResolvedValue([]);
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      });
+
+      it('should list them and apply them by default', async () => {
+        const result = await runnerWith().up();
+
+        expect(warnings()).toContain('1 pending migration(s) are older than the latest applied migration 20240103120000 and will be applied out of order');
+        expect(warnings()).toContain('20240102120000 - from_branch');
+        expect(result.applied.map(m => m.version)).toEqual(['20240102120000', '20240104120000']);
+      });
+
+      it('should refuse to migrate with the error policy', async () => {
+        await expect(runnerWith('error').up()).rejects.toMatchObject({ code: 'OUT_OF_ORDER' });
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      });
+
+      it('should apply them silently with the allow policy', async () => {
+        const result = await runnerWith('allow').up();
+
+        expect(warnSpy).not.toHaveBeenCalled();
+        expect(result.applied).toHaveLength(2);
+      });
+
+      it('should apply a single migration chosen with only, even with the error policy', async () => {
+        const result = await runnerWith('error').up(undefined, { only: '20240102120000' });
+
+        expect(mockDb.executeMigration).toHaveBeenCalledTimes(1);
+        expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE from_branch', undefined, expect.any(Object));
+        expect(result.applied.map(m => m.version)).toEqual(['20240102120000']);
+      });
+
+      it('should fail without applying anything when only names a version that is not pending', async () => {
+        await expect(runnerWith().up(undefined, { only: '20240103120000' })).rejects.toMatchObject({
+          code: 'VERSION_NOT_FOUND',
+          version: '20240103120000',
+          message: 'Version 20240103120000 is not a pending migration.',
+        });
+
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+        await expect(runnerWith().up('20240104120000', { only: '20240102120000' })).rejects.toThrow('Use either a target version or --only, not both.');
+      });
+    });
   });
 
   describe('down', () => {
@@ -416,7 +808,7 @@ describe('Runner', () => {
 
       await runner.down();
 
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE users', undefined);
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE users', undefined, expect.any(Object));
       expect(mockDb.markMigrationRolledBack).toHaveBeenCalledWith('20240101120000');
     });
 
@@ -450,7 +842,7 @@ describe('Runner', () => {
       await runner.down('20240101120000');
 
       expect(mockDb.executeMigration).toHaveBeenCalledTimes(1);
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE second', undefined);
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE second', undefined, expect.any(Object));
     });
 
     it('should handle no applied migrations', async () => {
@@ -484,10 +876,25 @@ describe('Runner', () => {
       mockDb.executeMigration.mockResolvedValue(undefined);
       mockDb.markMigrationRolledBack.mockResolvedValue(undefined);
 
-      await nonInteractiveRunner.down();
+      const result = await nonInteractiveRunner.down();
 
       expect(mockInquirer.prompt).not.toHaveBeenCalled();
       expect(mockDb.executeMigration).toHaveBeenCalled();
+      expect(result.cancelled).toBe(false);
+      expect(result.rolledBack).toEqual([{ version: '20240101120000', name: 'create_users', durationMs: expect.any(Number), statements: [] }]);
+    });
+
+    it('should report rollback failures with the ROLLBACK_FAILED code', async () => {
+      const nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+      jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', downSQL: 'DROP TABLE users' }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([
+        { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
+      ]);
+      mockDb.executeMigration.mockRejectedValue(new Error('Table is in use'));
+
+      await expect(nonInteractiveRunner.down()).rejects.toMatchObject({ code: 'ROLLBACK_FAILED', version: '20240101120000' });
     });
 
     it('should cancel rollback when user declines confirmation', async () => {
@@ -508,10 +915,256 @@ describe('Runner', () => {
       mockDb.getAppliedMigrations.mockResolvedValue(mockAppliedMigrations);
       mockInquirer.prompt.mockResolvedValue({ confirmation: false });
 
-      await runner.down();
+      const result = await runner.down();
 
       expect(mockDb.executeMigration).not.toHaveBeenCalled();
       expect(mockDb.markMigrationRolledBack).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ dryRun: false, cancelled: true, rolledBack: [], planned: [] });
+    });
+
+    describe('with steps', () => {
+      const localMigrations = [
+        { version: '20240101120000', name: 'first', filePath: '/tmp/migrations/first.yml', upSQL: 'CREATE TABLE first', downSQL: 'DROP TABLE first' },
+        { version: '20240102120000', name: 'second', filePath: '/tmp/migrations/second.yml', upSQL: 'CREATE TABLE second', downSQL: 'DROP TABLE second' },
+        { version: '20240103120000', name: 'third', filePath: '/tmp/migrations/third.yml', upSQL: 'CREATE TABLE third', downSQL: 'DROP TABLE third' },
+      ];
+      let nonInteractiveRunner: Runner;
+
+      beforeEach(() => {
+        nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+        jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+        mockDb.getAppliedMigrations.mockResolvedValue(localMigrations.map(m => ({ version: m.version, active: 1, created_at: '2024-01-01T12:00:00Z' })));
+        mockDb.executeMigration.mockResolvedValue(undefined);
+      });
+
+      it('should roll back the last N applied migrations, latest first', async () => {
+        const result = await nonInteractiveRunner.down(undefined, { steps: 2 });
+
+        expect(mockDb.executeMigration.mock.calls.map(call => call[0])).toEqual(['DROP TABLE third', 'DROP TABLE second']);
+        expect(result.rolledBack.map(m => m.version)).toEqual(['20240103120000', '20240102120000']);
+      });
+
+      it('should roll back every applied migration when N exceeds them', async () => {
+        const result = await nonInteractiveRunner.down(undefined, { steps: 10 });
+
+        expect(result.rolledBack.map(m => m.version)).toEqual(['20240103120000', '20240102120000', '20240101120000']);
+      });
+
+      it('should reject invalid steps and a target version combined with steps', async () => {
+        await expect(nonInteractiveRunner.down(undefined, { steps: 0 })).rejects.toThrow('--steps must be a positive integer, got 0.');
+        await expect(nonInteractiveRunner.down('20240101120000', { steps: 1 })).rejects.toThrow('Use only one of a target version, --steps or --only.');
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('with only', () => {
+      const localMigrations = [
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/1.yml', database: 'app', table: 'users', downSQL: 'DROP TABLE app.users' },
+        { version: '20240102120000', name: 'create_users_mv', filePath: '/tmp/migrations/2.yml', database: 'app', table: 'users_mv', downSQL: 'DROP VIEW app.users_mv' },
+        { version: '20240103120000', name: 'create_events', filePath: '/tmp/migrations/3.yml', database: 'app', table: 'events', downSQL: 'DROP TABLE app.events' },
+        { version: '20240104120000', name: 'alter_users_mv', filePath: '/tmp/migrations/4.yml', database: 'app', table: 'users_mv', downSQL: 'SELECT 1' },
+      ];
+      let nonInteractiveRunner: Runner;
+      let warnSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+        jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+        mockDb.getAppliedMigrations.mockResolvedValue(localMigrations.map(m => ({ version: m.version, active: 1, created_at: '2024-01-01T12:00:00Z' })));
+        mockDb.executeMigration.mockResolvedValue(undefined);
+        warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      });
+
+      it('should roll back only that migration and leave later ones applied', async () => {
+        const result = await nonInteractiveRunner.down(undefined, { only: '20240103120000' });
+
+        expect(mockDb.executeMigration).toHaveBeenCalledTimes(1);
+        expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE app.events', undefined, expect.any(Object));
+        expect(mockDb.markMigrationRolledBack).toHaveBeenCalledWith('20240103120000');
+        expect(result.rolledBack.map(m => m.version)).toEqual(['20240103120000']);
+        expect(warnSpy).not.toHaveBeenCalled();
+      });
+
+      it('should warn about later migrations on the same table', async () => {
+        await nonInteractiveRunner.down(undefined, { only: '20240102120000' });
+
+        const warnings = warnSpy.mock.calls.map(call => call.join(' ')).join('\n');
+        expect(warnings).toContain('1 later applied migration(s) also touch table app.users_mv and may depend on 20240102120000');
+        expect(warnings).toContain('20240104120000 - alter_users_mv');
+        expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP VIEW app.users_mv', undefined, expect.any(Object));
+      });
+
+      it('should fail without rolling back anything when only names a version that is not applied', async () => {
+        await expect(nonInteractiveRunner.down(undefined, { only: '20240999999999' })).rejects.toMatchObject({
+          code: 'VERSION_NOT_FOUND',
+          version: '20240999999999',
+          message: 'Version 20240999999999 is not currently applied. Cannot roll it back.',
+        });
+
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      });
+
+      it('should fail when nothing is applied at all', async () => {
+        mockDb.getAppliedMigrations.mockResolvedValue([]);
+
+        await expect(nonInteractiveRunner.down(undefined, { only: '20240103120000' })).rejects.toMatchObject({ code: 'VERSION_NOT_FOUND' });
+      });
+    });
+  });
+
+  describe('migration history', () => {
+    let nonInteractiveRunner: Runner;
+
+    beforeEach(() => {
+      nonInteractiveRunner = new Runner({ ...context, nonInteractive: true, skipSchemaUpdate: true });
+      jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', upSQL: 'CREATE TABLE users; CREATE TABLE users_copy', downSQL: 'DROP TABLE users' },
+      ]);
+      mockDb.getMigrationSteps.mockResolvedValue([]);
+    });
+
+    // Run each statement's completion callback, as Db.executeMigration does
+    const executeStatements = (failAt?: number) => async (sql: string, _settings: any, options: any = {}) => {
+      const statements = sql.split(';').map(statement => statement.trim());
+      for (let index = 0; index < statements.length; index++) {
+        if (index === failAt) throw new Error('Table already exists');
+        await options.onStatementComplete?.(index, statements.length, statements[index], { durationMs: 1, queryId: '' });
+      }
+    };
+
+    it('should record each successful apply with audit metadata', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockImplementation(executeStatements());
+
+      await nonInteractiveRunner.up();
+
+      expect(mockDb.recordMigrationHistory).toHaveBeenCalledWith({
+        version: '20240101120000',
+        name: 'create_users',
+        action: 'apply',
+        outcome: 'success',
+        environment: 'test',
+        clicksuite_version: expect.any(String),
+        os_user: expect.any(String),
+        host: expect.any(String),
+        git_commit: expect.any(String),
+        duration_ms: expect.any(Number),
+        statement_count: 2,
+        error: '',
+      });
+    });
+
+    it('should record a failed apply with its error and the statements that completed', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockImplementation(executeStatements(1));
+
+      await expect(nonInteractiveRunner.up()).rejects.toThrow('Table already exists');
+
+      expect(mockDb.recordMigrationHistory).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'apply',
+        outcome: 'failure',
+        statement_count: 1,
+        error: 'Table already exists',
+      }));
+    });
+
+    it('should record rollbacks', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([{ version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }]);
+      mockDb.executeMigration.mockImplementation(executeStatements());
+
+      await nonInteractiveRunner.down();
+
+      expect(mockDb.recordMigrationHistory).toHaveBeenCalledWith(expect.objectContaining({ action: 'rollback', outcome: 'success', statement_count: 1 }));
+    });
+
+    it('should only warn when the history cannot be written', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockImplementation(executeStatements());
+      mockDb.recordMigrationHistory.mockRejectedValue(new Error('Table is read-only'));
+
+      const result = await nonInteractiveRunner.up();
+
+      expect(result.applied).toHaveLength(1);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Could not record the apply of 20240101120000 in the migration history: Table is read-only'));
+    });
+
+    it('should not record dry runs', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', upSQL: 'CREATE TABLE users' },
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+
+      await dryRunner.up();
+
+      expect(mockDb.recordMigrationHistory).not.toHaveBeenCalled();
+    });
+
+    it('should read the history of a version', async () => {
+      const history = [{ version: '20240101120000', action: 'apply', outcome: 'success' }] as any[];
+      mockDb.getMigrationHistory.mockResolvedValue(history);
+
+      await expect(runner.history('20240101120000')).resolves.toEqual(history);
+      expect(mockDb.getMigrationHistory).toHaveBeenCalledWith('20240101120000');
+    });
+  });
+
+  describe('redo', () => {
+    const localMigrations = [
+      { version: '20240101120000', name: 'first', filePath: '/tmp/migrations/first.yml', upSQL: 'CREATE TABLE first', downSQL: 'DROP TABLE first' },
+      { version: '20240102120000', name: 'second', filePath: '/tmp/migrations/second.yml', upSQL: 'CREATE TABLE second', downSQL: 'DROP TABLE second' },
+      { version: '20240103120000', name: 'third', filePath: '/tmp/migrations/third.yml', upSQL: 'CREATE TABLE third', downSQL: 'DROP TABLE third' },
+    ];
+    const appliedRecords = (versions: string[]) => versions.map(version => ({ version, active: 1, created_at: '2024-01-01T12:00:00Z' }));
+
+    beforeEach(() => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+      jest.spyOn(runner as any, '_updateSchemaFile').mockResolvedValue({ status: 'updated', path: '/tmp/migrations/schema.sql' });
+      mockDb.executeMigration.mockResolvedValue(undefined);
+      mockDb.getMigrationSteps.mockResolvedValue([]);
+      mockInquirer.prompt.mockResolvedValue({ confirmation: true });
+    });
+
+    it('should roll back the last N migrations and apply them again in version order', async () => {
+      mockDb.getAppliedMigrations
+        .mockResolvedValueOnce(appliedRecords(['20240101120000', '20240102120000', '20240103120000']))
+        .mockResolvedValueOnce(appliedRecords(['20240101120000']));
+
+      const result = await runner.redo(2);
+
+      expect(mockDb.executeMigration.mock.calls.map(call => call[0])).toEqual([
+        'DROP TABLE third',
+        'DROP TABLE second',
+        'CREATE TABLE second',
+        'CREATE TABLE third',
+      ]);
+      expect(result.down.rolledBack.map(m => m.version)).toEqual(['20240103120000', '20240102120000']);
+      expect(result.up.applied.map(m => m.version)).toEqual(['20240102120000', '20240103120000']);
+      expect(runner['_updateSchemaFile']).toHaveBeenCalledTimes(1);
+      expect(result.schemaUpdate).toEqual({ status: 'updated', path: '/tmp/migrations/schema.sql' });
+    });
+
+    it('should not re-apply migrations when the rollback is cancelled', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue(appliedRecords(['20240101120000', '20240102120000', '20240103120000']));
+      mockInquirer.prompt.mockResolvedValue({ confirmation: false });
+
+      const result = await runner.redo();
+
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ cancelled: true, up: { applied: [] }, schemaUpdate: { status: 'skipped' } });
+    });
+
+    it('should preview the rollback and the re-apply in dry run mode', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+      mockDb.getAppliedMigrations.mockResolvedValue(appliedRecords(['20240101120000', '20240102120000', '20240103120000']));
+
+      const result = await dryRunner.redo(2);
+
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      expect(result.down.planned.map(m => m.statements)).toEqual([['DROP TABLE third'], ['DROP TABLE second']]);
+      expect(result.up.planned.map(m => m.statements)).toEqual([['CREATE TABLE second'], ['CREATE TABLE third']]);
     });
   });
 
@@ -539,7 +1192,7 @@ describe('Runner', () => {
 
       await runner.reset();
 
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE users', undefined);
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE users', undefined, expect.any(Object));
       expect(mockDb.clearMigrationsTable).toHaveBeenCalled();
       expect(mockDb.optimizeMigrationTable).toHaveBeenCalled();
     });
@@ -562,79 +1215,923 @@ describe('Runner', () => {
       mockDb.clearMigrationsTable.mockResolvedValue(undefined);
       mockDb.optimizeMigrationTable.mockResolvedValue(undefined);
 
-      await nonInteractiveRunner.reset();
+      await nonInteractiveRunner.reset();
+
+      expect(mockInquirer.prompt).not.toHaveBeenCalled();
+      expect(mockDb.clearMigrationsTable).toHaveBeenCalled();
+    });
+
+    it('should refuse to prompt with JSON output', async () => {
+      const jsonRunner = new Runner({ ...context, output: 'json' });
+
+      await expect(jsonRunner.reset()).rejects.toMatchObject({
+        code: 'CONFIRMATION_REQUIRED',
+        message: expect.stringContaining('--non-interactive'),
+      });
+      expect(mockInquirer.prompt).not.toHaveBeenCalled();
+      expect(mockDb.clearMigrationsTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schemaLoad', () => {
+    it('should mark local migrations as applied without running SQL', async () => {
+      const mockLocalMigrations = [
+        {
+          version: '20240101120000',
+          name: 'create_users',
+          filePath: '/tmp/migrations/test.yml'
+        },
+        {
+          version: '20240102120000',
+          name: 'add_index',
+          filePath: '/tmp/migrations/test2.yml'
+        }
+      ];
+
+      const mockDbRecords: any[] = [];
+
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
+      mockDb.getAllMigrationRecords.mockResolvedValue(mockDbRecords);
+      mockDb.markMigrationApplied.mockResolvedValue(undefined);
+      mockDb.optimizeMigrationTable.mockResolvedValue(undefined);
+
+      const result = await runner.schemaLoad();
+
+      expect(result).toMatchObject({ loaded: ['20240101120000', '20240102120000'], skipped: [], failed: [] });
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledTimes(2);
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240101120000', expect.any(String));
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240102120000', expect.any(String));
+      expect(mockDb.optimizeMigrationTable).toHaveBeenCalled();
+    });
+
+    it('should skip already active migrations', async () => {
+      const mockLocalMigrations = [
+        {
+          version: '20240101120000',
+          name: 'create_users',
+          filePath: '/tmp/migrations/test.yml'
+        }
+      ];
+
+      const mockDbRecords = [
+        { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
+      ];
+
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
+      mockDb.getAllMigrationRecords.mockResolvedValue(mockDbRecords);
+
+      await runner.schemaLoad();
+
+      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+    });
+
+    it('should handle empty local migrations', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([]);
+
+      await runner.schemaLoad();
+
+      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+    });
+
+    describe('from schema.sql', () => {
+      const schemaFile = `-- Auto-generated schema file
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Table: default.__clicksuite_migrations
+CREATE TABLE default.__clicksuite_migrations (version LowCardinality(String)) ENGINE = ReplacingMergeTree ORDER BY version;
+
+-- Table: app.events_daily
+CREATE TABLE app.events_daily (day Date, count UInt64) ENGINE = SummingMergeTree ORDER BY day;
+
+-- Table: app.users
+CREATE TABLE app.users (id UInt64, name String) ENGINE = MergeTree ORDER BY id;
+
+-- =====================================================
+-- MATERIALIZED VIEWS
+-- =====================================================
+
+-- Materialized View: app.events_daily_mv
+CREATE MATERIALIZED VIEW app.events_daily_mv TO app.events_daily AS SELECT today() AS day, count() AS count FROM app.users;
+
+-- =====================================================
+-- DICTIONARIES
+-- =====================================================
+
+-- Dictionary: app.users_dict
+CREATE DICTIONARY app.users_dict (id UInt64, name String) PRIMARY KEY id SOURCE(CLICKHOUSE(TABLE 'users' DB 'app')) LAYOUT(FLAT()) LIFETIME(0);
+`;
+
+      beforeEach(() => {
+        jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+          { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml' }
+        ]);
+        mockDb.getAllMigrationRecords.mockResolvedValue([]);
+        mockDb.executeMigration.mockResolvedValue(undefined);
+        mockFs.readFile.mockResolvedValue(schemaFile);
+      });
+
+      it('should create the databases and objects in dependency order before marking migrations applied', async () => {
+        const result = await runner.schemaLoad(true);
+
+        expect(mockFs.readFile).toHaveBeenCalledWith(path.join('/tmp/migrations', 'schema.sql'), 'utf-8');
+        expect(mockDb.executeMigration.mock.calls.map(call => call[0].split(' (')[0])).toEqual([
+          'CREATE DATABASE IF NOT EXISTS app',
+          'CREATE TABLE IF NOT EXISTS app.events_daily',
+          'CREATE TABLE IF NOT EXISTS app.users',
+          'CREATE DICTIONARY IF NOT EXISTS app.users_dict',
+          'CREATE MATERIALIZED VIEW IF NOT EXISTS app.events_daily_mv TO app.events_daily AS SELECT today() AS day, count() AS count FROM app.users',
+        ]);
+        expect(result.created).toEqual(['table/app.events_daily', 'table/app.users', 'dictionary/app.users_dict', 'view/app.events_daily_mv']);
+        expect(result.loaded).toEqual(['20240101120000']);
+      });
+
+      it('should create the migrations table, which schema.sql leaves out', async () => {
+        await runner.schemaLoad(true);
+
+        expect(mockDb.initMigrationsTable).toHaveBeenCalled();
+        expect(mockDb.initMigrationsTable.mock.invocationCallOrder[0]).toBeLessThan(mockDb.markMigrationApplied.mock.invocationCallOrder[0]);
+      });
+
+      it('should create databases and objects on the cluster', async () => {
+        const clusterRunner = new Runner({ ...context, cluster: 'main' });
+        jest.spyOn(clusterRunner as any, '_getLocalMigrations').mockResolvedValue([]);
+
+        await clusterRunner.schemaLoad(true);
+
+        expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE DATABASE IF NOT EXISTS app ON CLUSTER main');
+        expect(mockDb.executeMigration.mock.calls.slice(1).map(call => call[0].split(' (')[0])).toEqual([
+          'CREATE TABLE IF NOT EXISTS app.events_daily ON CLUSTER main',
+          'CREATE TABLE IF NOT EXISTS app.users ON CLUSTER main',
+          'CREATE DICTIONARY IF NOT EXISTS app.users_dict ON CLUSTER main',
+          'CREATE MATERIALIZED VIEW IF NOT EXISTS app.events_daily_mv ON CLUSTER main TO app.events_daily AS SELECT today() AS day, count() AS count FROM app.users',
+        ]);
+      });
+
+      it('should stop without marking migrations applied when an object cannot be created', async () => {
+        mockDb.executeMigration.mockImplementation(async (sql) => {
+          if (sql.includes('DICTIONARY')) throw new Error('Unknown table');
+        });
+
+        await expect(runner.schemaLoad(true)).rejects.toMatchObject({
+          code: 'SCHEMA_LOAD_FAILED',
+          message: 'Could not create dictionary app.users_dict from schema.sql: Unknown table',
+        });
+        expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+      });
+
+      it('should not create anything without --from-file', async () => {
+        const result = await runner.schemaLoad();
+
+        expect(mockFs.readFile).not.toHaveBeenCalled();
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+        expect(mockDb.initMigrationsTable).not.toHaveBeenCalled();
+        expect(result.created).toEqual([]);
+      });
+    });
+  });
+
+  describe('schemaDiff', () => {
+    const liveSchema = {
+      'table/app.users': 'CREATE TABLE app.users\n(\n    `id` UInt64\n)\nENGINE = MergeTree\nORDER BY id',
+      'view/app.users_mv': 'CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users',
+      'dictionary/app.users_dict': 'CREATE DICTIONARY app.users_dict (id UInt64) PRIMARY KEY id LAYOUT(FLAT()) LIFETIME(0)',
+    };
+
+    // Write schema.sql the way migrations do and return its contents
+    const writeSchemaFile = async (schema: Record<string, string>) => {
+      mockDb.getDatabaseSchema.mockResolvedValueOnce(schema);
+      mockFs.writeFile.mockResolvedValue(undefined);
+      await (runner as any)._updateSchemaFile();
+      return mockFs.writeFile.mock.calls[mockFs.writeFile.mock.calls.length - 1][1] as string;
+    };
+
+    it('should find no differences when the database matches the schema file it wrote', async () => {
+      mockFs.readFile.mockResolvedValue(await writeSchemaFile(liveSchema));
+      mockDb.getDatabaseSchema.mockResolvedValue(liveSchema);
+
+      const result = await runner.schemaDiff();
+
+      expect(mockFs.readFile).toHaveBeenCalledWith(path.join('/tmp/migrations', 'schema.sql'), 'utf-8');
+      expect(result).toEqual({ schemaPath: path.join('/tmp/migrations', 'schema.sql'), differences: [] });
+    });
+
+    it('should report objects changed, added or dropped outside of migrations', async () => {
+      mockFs.readFile.mockResolvedValue(await writeSchemaFile(liveSchema));
+      mockDb.getDatabaseSchema.mockResolvedValue({
+        'table/app.users': liveSchema['table/app.users'].replace('`id` UInt64', '`id` UInt64,\n    `email` String'),
+        'view/app.users_mv': liveSchema['view/app.users_mv'],
+        'table/app.hotfix': 'CREATE TABLE app.hotfix (x UInt8) ENGINE = Memory',
+      });
+
+      const result = await runner.schemaDiff();
+
+      expect(result.differences.map(d => `${d.change} ${d.type} ${d.name}`)).toEqual([
+        'removed dictionary app.users_dict',
+        'added table app.hotfix',
+        'changed table app.users',
+      ]);
+      expect(result.differences[2].diff).toContain('+    `email` String');
+    });
+
+    it('should fail when there is no schema file', async () => {
+      mockFs.readFile.mockRejectedValue(Object.assign(new Error('ENOENT: no such file'), { code: 'ENOENT' }));
+
+      await expect(runner.schemaDiff()).rejects.toThrow('Schema file /tmp/migrations/schema.sql not found');
+      expect(mockDb.getDatabaseSchema).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('squash', () => {
+    const localMigrations = [
+      { version: '20240101120000', name: 'create users', filePath: '/tmp/migrations/20240101120000_create-users.yml', upSQL: 'CREATE TABLE app.users' },
+      { version: '20240102120000', name: 'create users mv', filePath: '/tmp/migrations/20240102120000_create-users-mv.sql', upSQL: 'CREATE MATERIALIZED VIEW app.users_mv' },
+      { version: '20240103120000', name: 'add email', filePath: '/tmp/migrations/20240103120000_add-email.yml', upSQL: 'ALTER TABLE app.users ADD COLUMN email String' },
+    ];
+    const liveSchema = {
+      'table/default.__clicksuite_migrations': 'CREATE TABLE default.__clicksuite_migrations (version String) ENGINE = ReplacingMergeTree ORDER BY version',
+      'view/app.users_mv': 'CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users',
+      'table/app.users_copy': 'CREATE TABLE app.users_copy (id UInt64) ENGINE = MergeTree ORDER BY id',
+      'table/app.users': 'CREATE TABLE app.users (id UInt64) ENGINE = MergeTree ORDER BY id',
+    };
+    const applied = (...versions: string[]) => versions.map(version => ({ version, active: 1, created_at: '2024-01-01 12:00:00' }));
+
+    let squashRunner: Runner;
+
+    beforeEach(() => {
+      squashRunner = new Runner({ ...context, nonInteractive: true });
+      jest.spyOn(squashRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+      mockDb.getAppliedMigrations.mockResolvedValue(applied('20240101120000', '20240102120000', '20240103120000'));
+      mockDb.getDatabaseSchema.mockResolvedValue(liveSchema);
+      mockFs.readdir.mockResolvedValue([
+        '20240101120000_create-users.yml',
+        '20240102120000_create-users-mv.sql',
+        '20240103120000_add-email.yml',
+        'schema.sql',
+      ] as any);
+      mockFs.mkdir.mockResolvedValue(undefined);
+      mockFs.rename.mockResolvedValue(undefined);
+      mockFs.writeFile.mockResolvedValue(undefined);
+    });
+
+    it('should write a baseline with the version of the last migration and archive the squashed files', async () => {
+      const result = await squashRunner.squash();
+
+      expect(result).toEqual({
+        dryRun: false,
+        cancelled: false,
+        version: '20240103120000',
+        baselinePath: path.join('/tmp/migrations', '20240103120000_baseline.yml'),
+        squashed: ['20240101120000', '20240102120000', '20240103120000'],
+        archived: [
+          path.join('/tmp/migrations', 'archive', '20240101120000_create-users.yml'),
+          path.join('/tmp/migrations', 'archive', '20240102120000_create-users-mv.sql'),
+          path.join('/tmp/migrations', 'archive', '20240103120000_add-email.yml'),
+        ],
+        objects: ['table/app.users', 'table/app.users_copy', 'view/app.users_mv'],
+      });
+      expect(mockFs.rename).toHaveBeenCalledTimes(3);
+      expect(mockFs.rename).toHaveBeenCalledWith(path.join('/tmp/migrations', '20240103120000_add-email.yml'), path.join('/tmp/migrations', 'archive', '20240103120000_add-email.yml'));
+
+      const [baselinePath, content] = mockFs.writeFile.mock.calls[0] as [string, string];
+      expect(baselinePath).toBe(path.join('/tmp/migrations', '20240103120000_baseline.yml'));
+      expect(content).toContain('version: "20240103120000"');
+      expect(content).toContain('squashes:\n  - "20240101120000"\n  - "20240102120000"\n  - "20240103120000"\n');
+      expect(content).toContain([
+        'development: &baseline',
+        '  up: |',
+        '    CREATE DATABASE IF NOT EXISTS app {on_cluster};',
+        '',
+        '    CREATE TABLE IF NOT EXISTS app.users {on_cluster} (id UInt64) ENGINE = MergeTree ORDER BY id;',
+        '',
+        '    CREATE TABLE IF NOT EXISTS app.users_copy {on_cluster} (id UInt64) ENGINE = MergeTree ORDER BY id;',
+        '',
+        '    CREATE MATERIALIZED VIEW IF NOT EXISTS app.users_mv {on_cluster} TO app.users_copy AS SELECT * FROM app.users;',
+        '  down: |',
+        '    DROP VIEW IF EXISTS app.users_mv {on_cluster};',
+        '    DROP TABLE IF EXISTS app.users_copy {on_cluster};',
+        '    DROP TABLE IF EXISTS app.users {on_cluster};',
+      ].join('\n'));
+      expect(content).toContain('\ntest:\n  <<: *baseline\n');
+      expect(content).not.toContain('__clicksuite_migrations');
+    });
+
+    it('should write a baseline every environment runs, with the cluster left to each environment', async () => {
+      const clusterRunner = new Runner({ ...context, environment: 'production', cluster: 'prod_cluster', nonInteractive: true });
+      jest.spyOn(clusterRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+
+      await clusterRunner.squash();
+
+      const content = mockFs.writeFile.mock.calls[0][1] as string;
+      const actualYaml = jest.requireActual('js-yaml');
+      const parsed = actualYaml.load(content);
+      expect(parsed.development.up).toContain('CREATE DATABASE IF NOT EXISTS app {on_cluster};');
+      expect(parsed.production.up).toBe(parsed.development.up);
+      expect(parsed.staging).toBeUndefined();
+      expect(content).not.toContain('prod_cluster');
+    });
+
+    it('should only squash migrations up to --until', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue(applied('20240101120000', '20240102120000'));
+
+      const result = await squashRunner.squash('20240102120000');
+
+      expect(result.version).toBe('20240102120000');
+      expect(result.squashed).toEqual(['20240101120000', '20240102120000']);
+      expect(result.archived).toHaveLength(2);
+      expect(mockFs.rename).not.toHaveBeenCalledWith(path.join('/tmp/migrations', '20240103120000_add-email.yml'), expect.anything());
+    });
+
+    it('should carry over the versions of a baseline that is squashed again', async () => {
+      jest.spyOn(squashRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240102120000', name: 'baseline', filePath: '/tmp/migrations/20240102120000_baseline.yml', upSQL: 'CREATE TABLE app.users', squashes: ['20240101120000', '20240102120000'] },
+        localMigrations[2],
+      ]);
+
+      const result = await squashRunner.squash();
+
+      expect(result.squashed).toEqual(['20240101120000', '20240102120000', '20240103120000']);
+    });
+
+    it('should refuse to squash migrations that are not applied to the database', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue(applied('20240101120000'));
+
+      await expect(squashRunner.squash()).rejects.toMatchObject({
+        code: 'SQUASH_CONFLICT',
+        message: expect.stringContaining('20240102120000, 20240103120000'),
+      });
+      expect(mockFs.rename).not.toHaveBeenCalled();
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to squash until a version when later migrations are applied', async () => {
+      await expect(squashRunner.squash('20240102120000')).rejects.toMatchObject({
+        code: 'SQUASH_CONFLICT',
+        message: expect.stringContaining('later migration(s) are applied to this database (20240103120000)'),
+      });
+    });
+
+    it('should fail for an unknown --until version', async () => {
+      await expect(squashRunner.squash('20991231000000')).rejects.toThrow('Version 20991231000000 not found among local migrations.');
+    });
+
+    it('should not change any file in dry-run mode', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+
+      const result = await dryRunner.squash();
+
+      expect(result).toMatchObject({ dryRun: true, version: '20240103120000', squashed: ['20240101120000', '20240102120000', '20240103120000'] });
+      expect(result.archived).toHaveLength(3);
+      expect(mockFs.rename).not.toHaveBeenCalled();
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should not change any file when the user cancels', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(localMigrations);
+      mockInquirer.prompt.mockResolvedValue({ confirmation: false });
+
+      const result = await runner.squash();
+
+      expect(result.cancelled).toBe(true);
+      expect(mockFs.rename).not.toHaveBeenCalled();
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without local migrations', async () => {
+      jest.spyOn(squashRunner as any, '_getLocalMigrations').mockResolvedValue([]);
+
+      const result = await squashRunner.squash();
+
+      expect(result).toEqual({ dryRun: false, cancelled: false, squashed: [], archived: [], objects: [] });
+      expect(mockDb.getDatabaseSchema).not.toHaveBeenCalled();
+    });
+
+    describe('baselines', () => {
+      const baseline = {
+        version: '20240102120000',
+        name: 'baseline',
+        filePath: '/tmp/migrations/20240102120000_baseline.yml',
+        upSQL: 'CREATE TABLE IF NOT EXISTS app.users (id UInt64) ENGINE = MergeTree ORDER BY id',
+        squashes: ['20240101120000', '20240102120000'],
+      };
+
+      it('should count as applied in databases that applied the squashed migrations', async () => {
+        jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([baseline]);
+        mockDb.getAppliedMigrations.mockResolvedValue([
+          { ...applied('20240101120000')[0], checksum: 'old' },
+          { ...applied('20240102120000')[0], checksum: 'checksum of the archived migration' },
+        ]);
+
+        const result = await runner.up();
+
+        expect(result.applied).toEqual([]);
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+        expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('were modified after being applied'));
+      });
+
+      it('should run on a fresh database', async () => {
+        jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([baseline]);
+        mockDb.getAppliedMigrations.mockResolvedValue([]);
+        mockDb.getDatabaseSchema.mockResolvedValue({});
+
+        const result = await runner.up();
+
+        expect(result.applied.map(m => m.version)).toEqual(['20240102120000']);
+        expect(mockDb.executeMigration).toHaveBeenCalledWith(baseline.upSQL, undefined, expect.any(Object));
+      });
+
+      it('should refuse to run on a database that applied only some of the squashed migrations', async () => {
+        jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([baseline]);
+        mockDb.getAppliedMigrations.mockResolvedValue(applied('20240101120000'));
+
+        await expect(runner.up()).rejects.toMatchObject({ code: 'SQUASH_CONFLICT', version: '20240102120000' });
+        expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      });
+
+      it('should leave the records of squashed migrations out of the status', async () => {
+        jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([baseline]);
+        mockDb.getAllMigrationRecords.mockResolvedValue(applied('20240101120000', '20240102120000'));
+
+        const statuses = await runner.status();
+
+        expect(statuses.map(s => `${s.version} ${s.state}`)).toEqual(['20240102120000 APPLIED']);
+      });
+    });
+  });
+
+  describe('checksums', () => {
+    const appliedMigration = {
+      version: '20240101120000',
+      name: 'create_users',
+      filePath: '/tmp/migrations/20240101120000_create_users.yml',
+      upSQL: 'CREATE TABLE users',
+      downSQL: 'DROP TABLE users'
+    };
+    const pendingMigration = {
+      version: '20240102120000',
+      name: 'add_index',
+      filePath: '/tmp/migrations/20240102120000_add_index.yml',
+      upSQL: 'ALTER TABLE users ADD INDEX idx',
+      downSQL: 'ALTER TABLE users DROP INDEX idx'
+    };
+    const checksumOf = (up: string, down: string) =>
+      crypto.createHash('sha256').update(up).update('\0').update(down).digest('hex');
+
+    it('should store a checksum of the resolved up and down SQL when applying', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockResolvedValue(undefined);
+      mockDb.markMigrationApplied.mockResolvedValue(undefined);
+
+      await runner.up();
+
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith(
+        '20240101120000',
+        checksumOf('CREATE TABLE users', 'DROP TABLE users')
+      );
+    });
+
+    it('should report applied migrations whose local file changed', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([
+        { version: '20240101120000', active: 1, checksum: 'stale', created_at: '2024-01-01T12:00:00Z' }
+      ]);
+
+      const mismatches = await runner.verify();
+
+      expect(mismatches).toEqual([{
+        version: '20240101120000',
+        name: 'create_users',
+        filePath: appliedMigration.filePath,
+        storedChecksum: 'stale',
+        localChecksum: checksumOf('CREATE TABLE users', 'DROP TABLE users')
+      }]);
+    });
+
+    it('should not report matching, inactive or legacy records', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration, pendingMigration]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([
+        { version: '20240101120000', active: 1, checksum: checksumOf('CREATE TABLE users', 'DROP TABLE users'), created_at: '2024-01-01T12:00:00Z' },
+        { version: '20240102120000', active: 0, checksum: '', created_at: '2024-01-02T12:00:00Z' },
+        { version: '20231231120000', active: 1, checksum: '', created_at: '2023-12-31T12:00:00Z' }
+      ]);
+
+      const mismatches = await runner.verify();
+
+      expect(mismatches).toEqual([]);
+    });
+
+    it('should mark modified migrations in status output', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([
+        { version: '20240101120000', active: 1, checksum: 'stale', created_at: '2024-01-01T12:00:00Z' }
+      ]);
+
+      const [status] = await runner.status();
+
+      expect(status.checksumMismatch).toBe(true);
+    });
+
+    it('should warn about drift but still apply pending migrations by default', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration, pendingMigration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([
+        { version: '20240101120000', active: 1, checksum: 'stale', created_at: '2024-01-01T12:00:00Z' }
+      ]);
+      mockDb.executeMigration.mockResolvedValue(undefined);
+      mockDb.markMigrationApplied.mockResolvedValue(undefined);
+
+      await runner.up();
+
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('modified after being applied'));
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('ALTER TABLE users ADD INDEX idx', undefined, expect.objectContaining({ startAt: 0 }));
+    });
+
+    it('should refuse to migrate when failOnDrift is set and drift exists', async () => {
+      const strictRunner = new Runner({ ...context, failOnDrift: true });
+      jest.spyOn(strictRunner as any, '_getLocalMigrations').mockResolvedValue([appliedMigration, pendingMigration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([
+        { version: '20240101120000', active: 1, checksum: 'stale', created_at: '2024-01-01T12:00:00Z' }
+      ]);
+
+      await expect(strictRunner.up()).rejects.toMatchObject({ code: 'DRIFT_DETECTED', message: expect.stringContaining('Refusing to migrate') });
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('script migrations', () => {
+    const source = 'export async function up(ctx) {}';
+    const up = jest.fn();
+    const down = jest.fn();
+
+    beforeEach(() => {
+      up.mockReset();
+      down.mockReset();
+      mockFs.readdir.mockResolvedValue(['20240101120000_backfill-events.ts'] as any);
+      mockFs.readFile.mockResolvedValue(source as any);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockResolvedValue(undefined);
+      mockDb.markMigrationApplied.mockResolvedValue(undefined);
+      mockDb.markMigrationRolledBack.mockResolvedValue(undefined);
+    });
+
+    it('should load .ts and .js migration modules', async () => {
+      const requireSpy = jest.spyOn(runner as any, '_requireMigrationModule').mockReturnValue({
+        up,
+        down,
+        table: 'events',
+        settings: { mutations_sync: 2 },
+      });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(requireSpy).toHaveBeenCalledWith('/tmp/migrations/20240101120000_backfill-events.ts');
+      expect(migrations).toEqual([{
+        version: '20240101120000',
+        name: 'backfill events',
+        filePath: '/tmp/migrations/20240101120000_backfill-events.ts',
+        table: 'events',
+        database: undefined,
+        querySettings: { mutations_sync: 2 },
+        up,
+        down,
+        source,
+      }]);
+    });
+
+    it('should skip modules without an up function', async () => {
+      jest.spyOn(runner as any, '_requireMigrationModule').mockReturnValue({ down });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations).toEqual([]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('20240101120000_backfill-events.ts'),
+        "Migration modules must export an 'up' function."
+      );
+    });
+
+    it('should leave out the functions in environments the module is not meant for', async () => {
+      jest.spyOn(runner as any, '_requireMigrationModule').mockReturnValue({ up, down, environments: ['production'] });
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations[0].up).toBeUndefined();
+      expect(migrations[0].down).toBeUndefined();
+    });
+
+    it('should accept a default-exported module', () => {
+      const dir = fsSync.mkdtempSync(path.join(os.tmpdir(), 'clicksuite-'));
+      const filePath = path.join(dir, '20240101120000_default.js');
+      fsSync.writeFileSync(filePath, 'module.exports = { default: { up: async () => {}, table: "events" } };');
+      try {
+        const migrationModule = runner['_requireMigrationModule'](filePath);
+
+        expect(typeof migrationModule.up).toBe('function');
+        expect(migrationModule.table).toBe('events');
+      } finally {
+        fsSync.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should run up with a helper and track the migration like any other', async () => {
+      jest.spyOn(runner as any, '_requireMigrationModule').mockReturnValue({ up, table: 'events', settings: { mutations_sync: 2 } });
+      mockDb.query.mockResolvedValue([{ partition: '202401' }]);
+      up.mockImplementation(async (ctx) => {
+        expect(ctx.environment).toBe('test');
+        expect(ctx.dryRun).toBe(false);
+        const partitions = await ctx.query('SELECT partition FROM system.parts WHERE table = \'{table}\'');
+        for (const { partition } of partitions) {
+          await ctx.exec(`ALTER TABLE {table} DROP PARTITION '${partition}'`, { max_execution_time: 60 });
+        }
+      });
+
+      await runner.up();
+
+      expect(mockDb.query).toHaveBeenCalledWith("SELECT partition FROM system.parts WHERE table = 'events'", undefined);
+      expect(mockDb.executeMigration).toHaveBeenCalledWith(
+        "ALTER TABLE events DROP PARTITION '202401'",
+        { mutations_sync: 2, max_execution_time: 60 },
+        expect.any(Object)
+      );
+      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith(
+        '20240101120000',
+        crypto.createHash('sha256').update(source).digest('hex')
+      );
+    });
+
+    it('should only print exec() SQL in dry-run mode', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_requireMigrationModule').mockReturnValue({ up });
+      up.mockImplementation(async (ctx) => {
+        expect(ctx.dryRun).toBe(true);
+        await ctx.exec('OPTIMIZE TABLE events FINAL');
+      });
+
+      const result = await dryRunner.up();
+
+      expect(up).toHaveBeenCalled();
+      expect(result.planned[0].statements).toEqual(['OPTIMIZE TABLE events FINAL']);
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+    });
+
+    it('should halt when up throws', async () => {
+      jest.spyOn(runner as any, '_requireMigrationModule').mockReturnValue({ up });
+      up.mockRejectedValue(new Error('backfill failed'));
+
+      await expect(runner.up()).rejects.toThrow('backfill failed');
+      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+    });
+
+    it('should run down when rolling back', async () => {
+      const nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+      jest.spyOn(nonInteractiveRunner as any, '_requireMigrationModule').mockReturnValue({ up, down });
+      mockDb.getAppliedMigrations.mockResolvedValue([{ version: '20240101120000', active: 1, created_at: '2024-01-01 12:00:00' }]);
+      down.mockImplementation(async (ctx) => ctx.exec('DROP TABLE IF EXISTS events'));
+
+      await nonInteractiveRunner.down();
+
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('DROP TABLE IF EXISTS events', {}, expect.any(Object));
+      expect(mockDb.markMigrationRolledBack).toHaveBeenCalledWith('20240101120000');
+    });
+  });
+
+  describe('partial migrations', () => {
+    const multiStatementMigration = {
+      version: '20240101120000',
+      name: 'create_tables',
+      filePath: '/tmp/migrations/20240101120000_create_tables.yml',
+      upSQL: 'CREATE TABLE a (x UInt8) ENGINE = Memory; CREATE TABLE b (x UInt8) ENGINE = Memory; CREATE TABLE c (x UInt8) ENGINE = Memory',
+      downSQL: 'DROP TABLE c; DROP TABLE b; DROP TABLE a'
+    };
+    const sha = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+    const step = (index: number, statement: string, count = 3) => ({
+      version: '20240101120000',
+      statement_index: index,
+      statement_count: count,
+      checksum: sha(statement),
+      created_at: '2024-01-01 12:00:00.000000'
+    });
+
+    beforeEach(() => {
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockResolvedValue(undefined);
+      mockDb.markMigrationApplied.mockResolvedValue(undefined);
+    });
+
+    it('should record progress for each statement of a multi-statement migration', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.executeMigration.mockImplementation(async (_sql, _settings, options) => {
+        await options!.onStatementComplete!(0, 3, 'CREATE TABLE a (x UInt8) ENGINE = Memory', { durationMs: 1, queryId: '' });
+      });
+
+      await runner.up();
+
+      expect(mockDb.markStatementApplied).toHaveBeenCalledWith(
+        '20240101120000', 0, 3, sha('CREATE TABLE a (x UInt8) ENGINE = Memory')
+      );
+      expect(mockDb.clearMigrationSteps).toHaveBeenCalledWith('20240101120000');
+    });
+
+    it('should not record progress for single-statement migrations', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+        { ...multiStatementMigration, upSQL: 'CREATE TABLE a (x UInt8) ENGINE = Memory' }
+      ]);
+
+      mockDb.executeMigration.mockImplementation(async (_sql, _settings, options) => {
+        await options!.onStatementComplete!(0, 1, 'CREATE TABLE a (x UInt8) ENGINE = Memory', { durationMs: 1, queryId: '' });
+      });
+
+      await runner.up();
+
+      expect(mockDb.markStatementApplied).not.toHaveBeenCalled();
+      expect(mockDb.clearMigrationSteps).not.toHaveBeenCalled();
+    });
+
+    it('should resume from the first unexecuted statement in non-interactive mode', async () => {
+      const nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+      jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getMigrationSteps.mockResolvedValue([
+        step(0, 'CREATE TABLE a (x UInt8) ENGINE = Memory'),
+        step(1, 'CREATE TABLE b (x UInt8) ENGINE = Memory')
+      ]);
+
+      await nonInteractiveRunner.up();
+
+      expect(mockDb.executeMigration).toHaveBeenCalledWith(
+        multiStatementMigration.upSQL, undefined, expect.objectContaining({ startAt: 2 })
+      );
+      expect(mockDb.markMigrationApplied).toHaveBeenCalled();
+    });
+
+    it('should refuse to resume non-interactively when the executed statements changed', async () => {
+      const nonInteractiveRunner = new Runner({ ...context, nonInteractive: true });
+      jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getMigrationSteps.mockResolvedValue([step(0, 'CREATE TABLE old_a (x UInt8) ENGINE = Memory')]);
+
+      await expect(nonInteractiveRunner.up()).rejects.toThrow('--restart-partial');
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+    });
+
+    it('should restart from the first statement when restartPartial is set', async () => {
+      const restartRunner = new Runner({ ...context, nonInteractive: true, restartPartial: true });
+      jest.spyOn(restartRunner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getMigrationSteps.mockResolvedValue([step(0, 'CREATE TABLE a (x UInt8) ENGINE = Memory')]);
+
+      await restartRunner.up();
+
+      expect(mockDb.clearMigrationSteps).toHaveBeenCalledWith('20240101120000');
+      expect(mockDb.executeMigration).toHaveBeenCalledWith(
+        multiStatementMigration.upSQL, undefined, expect.objectContaining({ startAt: 0 })
+      );
+    });
+
+    it('should let the user abort an interactive resume', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getMigrationSteps.mockResolvedValue([step(0, 'CREATE TABLE a (x UInt8) ENGINE = Memory')]);
+      mockInquirer.prompt.mockResolvedValue({ action: 'abort' });
+
+      await expect(runner.up()).rejects.toMatchObject({ code: 'ABORTED', message: expect.stringContaining('Aborted by user') });
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
+    });
+
+    it('should show partially applied migrations as PARTIAL in status', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getAllMigrationRecords.mockResolvedValue([]);
+      mockDb.getMigrationSteps.mockResolvedValue([step(0, 'CREATE TABLE a (x UInt8) ENGINE = Memory')]);
+
+      const [status] = await runner.status();
+
+      expect(status.state).toBe('PARTIAL');
+      expect(status.completedStatements).toBe(1);
+    });
+
+    it('should report the resume point of partially applied migrations in a dry-run plan', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue([multiStatementMigration]);
+      mockDb.getMigrationSteps.mockResolvedValue([step(0, 'CREATE TABLE a (x UInt8) ENGINE = Memory')]);
+
+      const result = await dryRunner.up();
 
-      expect(mockInquirer.prompt).not.toHaveBeenCalled();
-      expect(mockDb.clearMigrationsTable).toHaveBeenCalled();
+      expect(result.planned[0].resumeFrom).toBe(2);
+      expect(mockDb.executeMigration).not.toHaveBeenCalled();
     });
   });
 
-  describe('schemaLoad', () => {
-    it('should mark local migrations as applied without running SQL', async () => {
-      const mockLocalMigrations = [
-        {
-          version: '20240101120000',
-          name: 'create_users',
-          filePath: '/tmp/migrations/test.yml'
-        },
-        {
-          version: '20240102120000',
-          name: 'add_index',
-          filePath: '/tmp/migrations/test2.yml'
+  describe('events and logger', () => {
+    const migration = {
+      version: '20240101120000',
+      name: 'create_tables',
+      filePath: '/tmp/migrations/20240101120000_create_tables.yml',
+      upSQL: 'CREATE TABLE a (x UInt8) ENGINE = Memory; CREATE TABLE b (x UInt8) ENGINE = Memory',
+      downSQL: 'DROP TABLE b; DROP TABLE a'
+    };
+
+    // Record every lifecycle event a runner emits, in order
+    const recordEvents = (eventRunner: Runner) => {
+      const events: Array<[string, any]> = [];
+      const names = [
+        'migration:start', 'migration:statement', 'migration:success', 'migration:error',
+        'rollback:start', 'rollback:statement', 'rollback:success', 'rollback:error', 'schema:updated',
+      ] as const;
+      names.forEach(name => eventRunner.on(name, (payload: any) => events.push([name, payload])));
+      return events;
+    };
+
+    beforeEach(() => {
+      mockDb.executeMigration.mockImplementation(async (sql, _settings, options) => {
+        const statements = sql.split('; ');
+        for (let i = 0; i < statements.length; i++) {
+          await options?.onStatementComplete?.(i, statements.length, statements[i], { durationMs: 5, queryId: `query-${i}` });
         }
-      ];
+      });
+      mockDb.getDatabaseSchema.mockResolvedValue({});
+      mockFs.writeFile.mockResolvedValue(undefined);
+    });
 
-      const mockDbRecords: any[] = [];
+    it('should emit migration events for each applied migration and statement', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([migration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      const events = recordEvents(runner);
 
-      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
-      mockDb.getAllMigrationRecords.mockResolvedValue(mockDbRecords);
-      mockDb.markMigrationApplied.mockResolvedValue(undefined);
-      mockDb.optimizeMigrationTable.mockResolvedValue(undefined);
+      await runner.up();
 
-      await runner.schemaLoad();
+      expect(events).toEqual([
+        ['migration:start', { version: '20240101120000', name: 'create_tables' }],
+        ['migration:statement', { version: '20240101120000', name: 'create_tables', index: 0, total: 2, statement: 'CREATE TABLE a (x UInt8) ENGINE = Memory', durationMs: 5, queryId: 'query-0' }],
+        ['migration:statement', { version: '20240101120000', name: 'create_tables', index: 1, total: 2, statement: 'CREATE TABLE b (x UInt8) ENGINE = Memory', durationMs: 5, queryId: 'query-1' }],
+        ['migration:success', {
+          version: '20240101120000',
+          name: 'create_tables',
+          durationMs: expect.any(Number),
+          statements: [
+            { index: 0, statement: 'CREATE TABLE a (x UInt8) ENGINE = Memory', durationMs: 5, queryId: 'query-0' },
+            { index: 1, statement: 'CREATE TABLE b (x UInt8) ENGINE = Memory', durationMs: 5, queryId: 'query-1' },
+          ],
+        }],
+        ['schema:updated', { path: path.join('/tmp/migrations', 'schema.sql') }],
+      ]);
+    });
+
+    it('should emit migration:error with the coded error when a migration fails', async () => {
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([migration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.executeMigration.mockRejectedValue(new Error('Syntax error'));
+      const events = recordEvents(runner);
 
-      expect(mockDb.markMigrationApplied).toHaveBeenCalledTimes(2);
-      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240101120000');
-      expect(mockDb.markMigrationApplied).toHaveBeenCalledWith('20240102120000');
-      expect(mockDb.optimizeMigrationTable).toHaveBeenCalled();
+      await expect(runner.up()).rejects.toThrow('Syntax error');
+
+      expect(events.map(([name]) => name)).toEqual(['migration:start', 'migration:error']);
+      expect(events[1][1]).toMatchObject({ version: '20240101120000', error: { code: 'MIGRATION_FAILED', message: 'Syntax error' } });
     });
 
-    it('should skip already active migrations', async () => {
-      const mockLocalMigrations = [
-        {
-          version: '20240101120000',
-          name: 'create_users',
-          filePath: '/tmp/migrations/test.yml'
-        }
-      ];
+    it('should emit rollback events when rolling back', async () => {
+      const nonInteractiveRunner = new Runner({ ...context, nonInteractive: true, skipSchemaUpdate: true });
+      jest.spyOn(nonInteractiveRunner as any, '_getLocalMigrations').mockResolvedValue([migration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([{ version: '20240101120000', active: 1, created_at: '2024-01-01 12:00:00' }]);
+      const events = recordEvents(nonInteractiveRunner);
 
-      const mockDbRecords = [
-        { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
-      ];
+      await nonInteractiveRunner.down();
 
-      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
-      mockDb.getAllMigrationRecords.mockResolvedValue(mockDbRecords);
+      expect(events.map(([name]) => name)).toEqual(['rollback:start', 'rollback:statement', 'rollback:statement', 'rollback:success']);
+    });
 
-      await runner.schemaLoad();
+    it('should emit no events in dry-run mode', async () => {
+      const dryRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue([migration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      const events = recordEvents(dryRunner);
 
-      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+      await dryRunner.up();
+
+      expect(events).toEqual([]);
     });
 
-    it('should handle empty local migrations', async () => {
-      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([]);
-      mockDb.getAllMigrationRecords.mockResolvedValue([]);
+    it('should send its messages to the context logger instead of the console', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const loggedRunner = new Runner({ ...context, logger });
+      jest.spyOn(loggedRunner as any, '_getLocalMigrations').mockResolvedValue([migration]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      jest.clearAllMocks();
 
-      await runner.schemaLoad();
+      await loggedRunner.up();
 
-      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Successfully applied 20240101120000 - create_tables'));
+      expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining('--- UP SQL (Env: '));
+      expect(console.log).not.toHaveBeenCalled();
     });
   });
 
   describe('migrate', () => {
     it('should call up method', async () => {
-      const upSpy = jest.spyOn(runner, 'up').mockResolvedValue(undefined);
+      const upResult = { dryRun: false, applied: [], planned: [], skipped: [], durationMs: 0, schemaUpdate: { status: 'skipped' as const } };
+      const upSpy = jest.spyOn(runner, 'up').mockResolvedValue(upResult);
 
-      await runner.migrate();
+      await expect(runner.migrate()).resolves.toBe(upResult);
 
       expect(upSpy).toHaveBeenCalled();
     });
@@ -668,10 +2165,33 @@ describe('Runner', () => {
       jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
       mockDb.getAppliedMigrations.mockResolvedValue([]);
 
-      await dryRunRunner.up();
+      const result = await dryRunRunner.up();
 
       expect(mockDb.executeMigration).not.toHaveBeenCalled();
       expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        dryRun: true,
+        applied: [],
+        planned: [{ version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', statements: ['CREATE TABLE users'] }],
+        schemaUpdate: { status: 'skipped' },
+      });
+    });
+
+    it('should preview statements using the quote-aware splitter', async () => {
+      const dryRunRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue([
+        {
+          version: '20240101120000',
+          name: 'seed',
+          filePath: '/tmp/migrations/test.yml',
+          upSQL: "INSERT INTO t VALUES ('a;b'); -- seed; done\nOPTIMIZE TABLE t"
+        }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+
+      const result = await dryRunRunner.up();
+
+      expect(result.planned[0].statements).toEqual(["INSERT INTO t VALUES ('a;b')", '-- seed; done\nOPTIMIZE TABLE t']);
     });
 
     it('should not execute migrations in dry run mode for down', async () => {
@@ -723,11 +2243,9 @@ describe('Runner', () => {
       expect(dryRunRunner['_updateSchemaFile']).not.toHaveBeenCalled();
     });
 
-    it('should show formatted dry run output for up migrations', async () => {
-      const dryRunContext = { ...context, dryRun: true };
-      const dryRunRunner = new Runner(dryRunContext);
-
-      const mockLocalMigrations = [
+    it('should plan the statements, database and table of up migrations', async () => {
+      const dryRunRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue([
         {
           version: '20240101120000',
           name: 'create_users',
@@ -736,47 +2254,26 @@ describe('Runner', () => {
           table: 'users',
           database: 'test_db'
         }
-      ];
-
-      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
+      ]);
       mockDb.getAppliedMigrations.mockResolvedValue([]);
 
-      await dryRunRunner.up();
+      const result = await dryRunRunner.up();
 
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN: The following 1 migration(s) would be applied:')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN: Migration 20240101120000 - create_users')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Environment: test')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Database: test_db')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Table: users')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('SQL to execute (2 queries):')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('CREATE TABLE users;')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('INSERT INTO users VALUES (1);')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN COMPLETE: 1 migration(s) would be applied (no changes made)')
-      );
+      expect(result.planned).toEqual([{
+        version: '20240101120000',
+        name: 'create_users',
+        filePath: '/tmp/migrations/test.yml',
+        database: 'test_db',
+        table: 'users',
+        statements: ['CREATE TABLE users', 'INSERT INTO users VALUES (1)'],
+        resumeFrom: undefined,
+      }]);
+      expect(consoleSpy).not.toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE users'));
     });
 
-    it('should show formatted dry run output for down migrations', async () => {
-      const dryRunContext = { ...context, dryRun: true };
-      const dryRunRunner = new Runner(dryRunContext);
-
-      const mockLocalMigrations = [
+    it('should plan the statements of down migrations', async () => {
+      const dryRunRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue([
         {
           version: '20240101120000',
           name: 'create_users',
@@ -785,97 +2282,47 @@ describe('Runner', () => {
           table: 'users',
           database: 'test_db'
         }
-      ];
-
-      const mockAppliedMigrations = [
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([
         { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
-      ];
+      ]);
 
-      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
-      mockDb.getAppliedMigrations.mockResolvedValue(mockAppliedMigrations);
-
-      await dryRunRunner.down();
+      const result = await dryRunRunner.down();
 
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN: The following 1 migration(s) would be rolled back')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN: Rolling back 20240101120000 - create_users')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Environment: test')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Database: test_db')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Table: users')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('SQL to execute (1 query):')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DROP TABLE users;')
-      );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('DRY RUN COMPLETE: 1 migration(s) would be rolled back (no changes made)')
-      );
+      expect(result.dryRun).toBe(true);
+      expect(result.planned).toEqual([expect.objectContaining({ version: '20240101120000', statements: ['DROP TABLE users'] })]);
+      expect(result.rolledBack).toEqual([]);
     });
 
-    it('should show dry run skip message for migrations without upSQL', async () => {
-      const dryRunContext = { ...context, dryRun: true };
-      const dryRunRunner = new Runner(dryRunContext);
-      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
-
-      const mockLocalMigrations = [
-        {
-          version: '20240101120000',
-          name: 'create_users',
-          filePath: '/tmp/migrations/test.yml',
-          upSQL: undefined
-        }
-      ];
-
-      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
+    it('should report migrations without upSQL as skipped', async () => {
+      const dryRunRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', upSQL: undefined }
+      ]);
       mockDb.getAppliedMigrations.mockResolvedValue([]);
 
-      await dryRunRunner.up();
+      const result = await dryRunRunner.up();
 
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Would skip 20240101120000: No \'up\' SQL found for environment \'test\'.')
-      );
-      
-      consoleWarnSpy.mockRestore();
+      expect(result.skipped).toEqual([
+        { version: '20240101120000', name: 'create_users', reason: "No 'up' SQL found for environment 'test'." }
+      ]);
+      expect(result.planned).toEqual([]);
     });
 
-    it('should show dry run skip message for migrations without downSQL', async () => {
-      const dryRunContext = { ...context, dryRun: true };
-      const dryRunRunner = new Runner(dryRunContext);
-      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
-
-      const mockLocalMigrations = [
-        {
-          version: '20240101120000',
-          name: 'create_users',
-          filePath: '/tmp/migrations/test.yml',
-          downSQL: undefined
-        }
-      ];
-
-      const mockAppliedMigrations = [
+    it('should report migrations without downSQL as skipped', async () => {
+      const dryRunRunner = new Runner({ ...context, dryRun: true });
+      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_users', filePath: '/tmp/migrations/test.yml', downSQL: undefined }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([
         { version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }
-      ];
-
-      jest.spyOn(dryRunRunner as any, '_getLocalMigrations').mockResolvedValue(mockLocalMigrations);
-      mockDb.getAppliedMigrations.mockResolvedValue(mockAppliedMigrations);
+      ]);
 
-      await dryRunRunner.down();
+      const result = await dryRunRunner.down();
 
-      expect(consoleWarnSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Would skip 20240101120000: No \'down\' SQL found for environment \'test\'.')
-      );
-      
-      consoleWarnSpy.mockRestore();
+      expect(result.skipped).toEqual([
+        { version: '20240101120000', name: 'create_users', reason: "No 'down' SQL found for environment 'test'." }
+      ]);
     });
 
     it('should show dry run message when no pending migrations', async () => {
@@ -1045,7 +2492,7 @@ describe('Runner', () => {
       mockDb.getDatabaseDictionaries.mockResolvedValue([]);
       mockFs.writeFile.mockResolvedValue(undefined);
 
-      await verboseRunner['_updateSchemaFile']();
+      const schemaUpdate = await verboseRunner['_updateSchemaFile']();
 
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining('Updating schema file for all databases')
@@ -1053,9 +2500,7 @@ describe('Runner', () => {
       expect(consoleSpy).toHaveBeenCalledWith(
         expect.stringContaining('Found 0 tables, 0 views, 0 dictionaries')
       );
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('Schema file updated:')
-      );
+      expect(schemaUpdate).toEqual({ status: 'updated', path: path.join('/tmp/migrations', 'schema.sql') });
     });
 
     it('should show simple schema update message when verbose is false', async () => {
@@ -1238,9 +2683,10 @@ describe('Runner', () => {
       mockDb.getDatabaseTables.mockResolvedValue([]);
       mockDb.getDatabaseMaterializedViews.mockResolvedValue([]);
       mockDb.getDatabaseDictionaries.mockResolvedValue([]);
+      mockDb.getDatabaseSchema.mockResolvedValue({});
       mockFs.writeFile.mockRejectedValue(new Error('Permission denied'));
 
-      await expect(runner['_updateSchemaFile']()).resolves.not.toThrow();
+      await expect(runner['_updateSchemaFile']()).resolves.toMatchObject({ status: 'failed', error: 'Permission denied' });
     });
 
     it('should handle database connection errors gracefully', async () => {
@@ -1248,6 +2694,119 @@ describe('Runner', () => {
 
       await expect(runner['_updateSchemaFile']()).resolves.not.toThrow();
     });
+
+    it('should write byte-identical files for the same schema regardless of query order', async () => {
+      const schema = {
+        'view/app.users_mv': 'CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users',
+        'table/app.users': 'CREATE TABLE app.users (id UInt64) ENGINE = MergeTree ORDER BY id',
+        'table/app.events': 'CREATE TABLE app.events (id UInt64) ENGINE = MergeTree ORDER BY id',
+      };
+      const reversed = Object.fromEntries(Object.entries(schema).reverse());
+      mockFs.writeFile.mockResolvedValue(undefined);
+
+      mockDb.getDatabaseSchema.mockResolvedValueOnce(schema);
+      await runner['_updateSchemaFile']();
+      mockDb.getDatabaseSchema.mockResolvedValueOnce(reversed);
+      await runner['_updateSchemaFile']();
+
+      const [first, second] = mockFs.writeFile.mock.calls.map(call => call[1] as string);
+      expect(second).toBe(first);
+      expect(first).not.toContain('Generated on');
+      expect(first.indexOf('-- Table: app.events')).toBeLessThan(first.indexOf('-- Table: app.users'));
+    });
+
+    describe('directory layout', () => {
+      const schemaDir = path.join('/tmp/migrations', 'schema');
+      const schema = {
+        'table/app.users': 'CREATE TABLE app.users (id UInt64) ENGINE = MergeTree ORDER BY id',
+        'view/app.users_mv': 'CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users',
+        'dictionary/geo.countries': 'CREATE DICTIONARY geo.countries (id UInt64) PRIMARY KEY id LAYOUT(FLAT()) LIFETIME(0)',
+      };
+      // Files in the schema directory before the run, keyed by path relative to it
+      const dirent = (name: string, isDirectory: boolean) => ({ name, isDirectory: () => isDirectory });
+      const mockSchemaDirectory = (files: string[]) => {
+        mockFs.readdir.mockImplementation((async (dir: string) => {
+          const relative = path.relative(schemaDir, dir);
+          const prefix = relative ? `${relative}/` : '';
+          const children = new Map<string, boolean>();
+          files.filter(file => file.startsWith(prefix)).forEach(file => {
+            const [first, ...rest] = file.slice(prefix.length).split('/');
+            children.set(first, rest.length > 0);
+          });
+          if (children.size === 0) {
+            throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+          }
+          return Array.from(children).map(([name, isDirectory]) => dirent(name, isDirectory));
+        }) as any);
+      };
+
+      let directoryRunner: Runner;
+
+      beforeEach(() => {
+        directoryRunner = new Runner({ ...context, schema: { layout: 'directory' } });
+        mockDb.getDatabaseSchema.mockResolvedValue(schema);
+        mockFs.mkdir.mockResolvedValue(undefined);
+        mockFs.unlink.mockResolvedValue(undefined);
+      });
+
+      it('should write one file per object under <database>/<type>/<name>.sql', async () => {
+        mockSchemaDirectory([]);
+
+        const result = await directoryRunner['_updateSchemaFile']();
+
+        expect(result).toEqual({ status: 'updated', path: schemaDir });
+        expect(mockFs.writeFile.mock.calls).toEqual([
+          [path.join(schemaDir, 'app', 'table', 'users.sql'), '-- Table: app.users\nCREATE TABLE app.users (id UInt64) ENGINE = MergeTree ORDER BY id;\n'],
+          [path.join(schemaDir, 'app', 'view', 'users_mv.sql'), '-- Materialized View: app.users_mv\nCREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users;\n'],
+          [path.join(schemaDir, 'geo', 'dictionary', 'countries.sql'), '-- Dictionary: geo.countries\nCREATE DICTIONARY geo.countries (id UInt64) PRIMARY KEY id LAYOUT(FLAT()) LIFETIME(0);\n'],
+        ]);
+        expect(mockFs.mkdir).toHaveBeenCalledWith(path.join(schemaDir, 'geo', 'dictionary'), { recursive: true });
+        expect(mockFs.writeFile).not.toHaveBeenCalledWith(path.join('/tmp/migrations', 'schema.sql'), expect.anything());
+      });
+
+      it('should encode names that are not safe as file names', async () => {
+        mockSchemaDirectory([]);
+        mockDb.getDatabaseSchema.mockResolvedValue({
+          'table/app.../../../etc/passwd': 'CREATE TABLE app.`../../../etc/passwd` (id UInt64) ENGINE = MergeTree ORDER BY id',
+          'table/app...': 'CREATE TABLE app.`..` (id UInt64) ENGINE = MergeTree ORDER BY id',
+        });
+
+        const result = await directoryRunner['_updateSchemaFile']();
+
+        expect(result).toEqual({ status: 'updated', path: schemaDir });
+        expect(mockFs.writeFile.mock.calls.map(([filePath]) => filePath)).toEqual([
+          path.join(schemaDir, 'app', 'table', '..%2F..%2F..%2Fetc%2Fpasswd.sql'),
+          path.join(schemaDir, 'app', 'table', '%2E%2E.sql'),
+        ]);
+      });
+
+      it('should remove the files of objects that were dropped', async () => {
+        mockSchemaDirectory(['app/table/users.sql', 'app/table/legacy.sql', 'app/table/notes.txt', 'geo/dictionary/countries.sql']);
+
+        await directoryRunner['_updateSchemaFile']();
+
+        expect(mockFs.unlink).toHaveBeenCalledTimes(1);
+        expect(mockFs.unlink).toHaveBeenCalledWith(path.join(schemaDir, 'app', 'table', 'legacy.sql'));
+      });
+
+      it('should read the directory back for schema:diff', async () => {
+        mockSchemaDirectory(['app/table/users.sql', 'app/view/users_mv.sql', 'geo/dictionary/countries.sql']);
+        mockFs.stat.mockResolvedValue({} as any);
+        await directoryRunner['_updateSchemaFile']();
+        const written = new Map(mockFs.writeFile.mock.calls.map(([filePath, content]) => [filePath as string, content as string]));
+        mockFs.readFile.mockImplementation((async (filePath: string) => written.get(filePath)) as any);
+
+        const result = await directoryRunner.schemaDiff();
+
+        expect(result).toEqual({ schemaPath: schemaDir, differences: [] });
+      });
+
+      it('should fail schema:diff when the directory does not exist', async () => {
+        mockFs.stat.mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+
+        await expect(directoryRunner.schemaDiff()).rejects.toThrow(`Schema file ${schemaDir} not found`);
+      });
+    });
   });
 
   describe('schema file integration', () => {
@@ -1550,7 +3109,7 @@ describe('Runner', () => {
       expect(consoleWarnSpy).toHaveBeenCalledWith(
         expect.stringContaining("⚠️  Warning: Environment variable 'UNDEFINED_VAR' is not set. Using empty string.")
       );
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE _users', {});
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE _users', {}, expect.objectContaining({ startAt: 0 }));
     });
 
     it('should use environment variable value when defined', async () => {
@@ -1572,7 +3131,122 @@ describe('Runner', () => {
 
       await runner.up();
 
-      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE prod_users', {});
+      expect(mockDb.executeMigration).toHaveBeenCalledWith('CREATE TABLE prod_users', {}, expect.objectContaining({ startAt: 0 }));
+    });
+  });
+
+  describe('cluster placeholders', () => {
+    const loadYaml = (up: string) => {
+      mockFs.readdir.mockResolvedValue(['20240101120000_create_events.yml'] as any);
+      mockFs.readFile.mockResolvedValue('yaml content');
+      mockYaml.load.mockReturnValue({ table: 'events', test: { up } });
+    };
+
+    it('should replace {cluster} and {on_cluster}, leaving {cluster} macros in string literals to ClickHouse', async () => {
+      const clusterRunner = new Runner({ ...context, cluster: 'prod' });
+      loadYaml("CREATE TABLE {table} {on_cluster} (id UInt64) ENGINE = ReplicatedMergeTree('/clickhouse/{cluster}/{table}', '{replica}') ORDER BY id; SYSTEM SYNC REPLICA {table} ON CLUSTER {cluster}");
+
+      const migrations = await clusterRunner['_getLocalMigrations']();
+
+      expect(migrations[0].upSQL).toBe("CREATE TABLE events ON CLUSTER prod (id UInt64) ENGINE = ReplicatedMergeTree('/clickhouse/{cluster}/events', '{replica}') ORDER BY id; SYSTEM SYNC REPLICA events ON CLUSTER prod");
+    });
+
+    it('should drop {on_cluster} and warn about {cluster} without a cluster', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      loadYaml('CREATE TABLE {table} {on_cluster} (id UInt64) ENGINE = Memory; SYSTEM SYNC REPLICA {table} ON CLUSTER {cluster}');
+
+      const migrations = await runner['_getLocalMigrations']();
+
+      expect(migrations[0].upSQL).toBe('CREATE TABLE events  (id UInt64) ENGINE = Memory; SYSTEM SYNC REPLICA events ON CLUSTER {cluster}');
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('{cluster} is used but no cluster is configured'));
+      warnSpy.mockRestore();
+    });
+
+    it('should show the injected ON CLUSTER clauses in a dry run', async () => {
+      const dryRunner = new Runner({ ...context, cluster: 'prod', injectOnCluster: true, dryRun: true });
+      jest.spyOn(dryRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'create_events', filePath: '/tmp/migrations/test.yml', upSQL: 'CREATE TABLE events (id UInt64) ENGINE = Memory; INSERT INTO events VALUES (1)' }
+      ]);
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+
+      const result = await dryRunner.up();
+
+      expect(result.planned[0].statements).toEqual([
+        'CREATE TABLE events ON CLUSTER prod (id UInt64) ENGINE = Memory',
+        'INSERT INTO events VALUES (1)',
+      ]);
+    });
+  });
+
+  describe('replica verification', () => {
+    let clusterRunner: Runner;
+    const replicaTable = (host: string, create_table_query: string) => ({ host, database: 'analytics', name: 'events', create_table_query });
+    const engine = (replica: string) => `CREATE TABLE analytics.events (id UInt64) ENGINE = ReplicatedMergeTree('/clickhouse/tables/01/events', '${replica}') ORDER BY id`;
+
+    beforeEach(() => {
+      clusterRunner = new Runner({ ...context, cluster: 'prod', verifyReplicas: true, nonInteractive: true, skipSchemaUpdate: true });
+      jest.spyOn(clusterRunner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'add_country', filePath: '/tmp/migrations/test.yml', database: 'analytics', table: 'events', upSQL: 'ALTER TABLE analytics.events ON CLUSTER prod ADD COLUMN country String; RENAME TABLE analytics.tmp TO analytics.archive ON CLUSTER prod', downSQL: 'ALTER TABLE analytics.events ON CLUSTER prod DROP COLUMN country' },
+      ]);
+    });
+
+    it('should compare the objects a migration worked on across replicas before marking it applied', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.getReplicaTables.mockResolvedValue({ hosts: ['ch-1', 'ch-2'], tables: [replicaTable('ch-1', engine('ch-1')), replicaTable('ch-2', engine('ch-2'))] });
+
+      await clusterRunner.up();
+
+      expect(mockDb.getReplicaTables).toHaveBeenCalledWith([
+        { database: 'analytics', name: 'events' },
+        { database: 'analytics', name: 'tmp' },
+        { database: 'analytics', name: 'archive' },
+      ]);
+      expect(mockDb.markMigrationApplied).toHaveBeenCalled();
+    });
+
+    it('should fail with REPLICA_MISMATCH and not mark the migration applied when replicas differ', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      mockDb.getReplicaTables.mockResolvedValue({
+        hosts: ['ch-1', 'ch-2', 'ch-3'],
+        tables: [
+          replicaTable('ch-1', engine('ch-1').replace('(id UInt64)', '(id UInt64, country String)')),
+          replicaTable('ch-2', engine('ch-2').replace('(id UInt64)', '(id UInt64, country String)')),
+          replicaTable('ch-3', engine('ch-3')),
+          { host: 'ch-1', database: 'analytics', name: 'archive', create_table_query: 'CREATE TABLE analytics.archive (id UInt64) ENGINE = Memory' },
+        ],
+      });
+
+      await expect(clusterRunner.up()).rejects.toMatchObject({
+        code: 'REPLICA_MISMATCH',
+        version: '20240101120000',
+        message: 'The replicas of cluster prod are out of sync after 20240101120000: analytics.archive is missing on ch-2, ch-3; analytics.events differs on ch-3.',
+      });
+      expect(mockDb.markMigrationApplied).not.toHaveBeenCalled();
+    });
+
+    it('should verify rollbacks before marking them rolled back', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([{ version: '20240101120000', active: 1, created_at: '2024-01-01T12:00:00Z' }]);
+      mockDb.executeMigration.mockImplementation(async (sql: string, _settings: any, options: any) => {
+        await options.onStatementComplete(0, 1, sql, { durationMs: 1, queryId: '' });
+      });
+      mockDb.getReplicaTables.mockResolvedValue({ hosts: ['ch-1'], tables: [] });
+
+      await clusterRunner.down();
+
+      expect(mockDb.getReplicaTables).toHaveBeenCalledWith([{ database: 'analytics', name: 'events' }]);
+      expect(mockDb.markMigrationRolledBack).toHaveBeenCalled();
+    });
+
+    it('should not verify replicas unless verifyReplicas is set', async () => {
+      mockDb.getAppliedMigrations.mockResolvedValue([]);
+      jest.spyOn(runner as any, '_getLocalMigrations').mockResolvedValue([
+        { version: '20240101120000', name: 'add_country', filePath: '/tmp/migrations/test.yml', upSQL: 'ALTER TABLE events ADD COLUMN country String' },
+      ]);
+
+      await runner.up();
+
+      expect(mockDb.getReplicaTables).not.toHaveBeenCalled();
     });
   });
 
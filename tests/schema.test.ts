@@ -0,0 +1,227 @@
+import { diffSchemas, formatSchemaObject, isInSchemaScope, normalizeStatement, orderSchemaObjects, parseSchemaFile, stabilizeStatement, toCreateIfNotExists, unifiedDiff } from '../src/schema';
+
+describe('schema', () => {
+  const usersTable = 'CREATE TABLE app.users\n(\n    `id` UInt64,\n    `name` String\n)\nENGINE = MergeTree\nORDER BY id';
+
+  describe('normalizeStatement', () => {
+    it('should ignore trailing semicolons, trailing whitespace and carriage returns', () => {
+      expect(normalizeStatement('CREATE TABLE a\r\n(\r\n    `x` UInt8   \r\n)\r\nENGINE = Memory;\n\n')).toBe('CREATE TABLE a\n(\n    `x` UInt8\n)\nENGINE = Memory');
+    });
+  });
+
+  describe('stabilizeStatement', () => {
+    const replicated = "CREATE TABLE app.events UUID '3c1a6f0e-8f7b-4c1e-9a51-2f8c1d7e4b90'\n(\n    `id` UInt64\n)\nENGINE = ReplicatedMergeTree('/clickhouse/tables/01/app/events', 'replica-1')\nORDER BY id";
+
+    it('should remove the table UUIDs assigned by Atomic databases', () => {
+      expect(stabilizeStatement(replicated)).toBe("CREATE TABLE app.events\n(\n    `id` UInt64\n)\nENGINE = ReplicatedMergeTree('/clickhouse/tables/01/app/events', 'replica-1')\nORDER BY id");
+      expect(stabilizeStatement("CREATE MATERIALIZED VIEW app.mv UUID 'a6f1c1d2-0b5e-4c3a-8d2f-1e9b7c6a5d40' TO INNER UUID 'b7e2d2e3-1c6f-4d4b-9e3a-2f0c8d7b6e51' AS SELECT 1;"))
+        .toBe('CREATE MATERIALIZED VIEW app.mv AS SELECT 1');
+    });
+
+    it('should remove the replica path and name only with stripReplicaPaths', () => {
+      expect(stabilizeStatement(replicated, { stripReplicaPaths: true })).toContain('ENGINE = ReplicatedMergeTree()\nORDER BY id');
+      expect(stabilizeStatement("ENGINE = ReplicatedReplacingMergeTree('/clickhouse/tables/02/app/users', 'replica-2', version)", { stripReplicaPaths: true }))
+        .toBe('ENGINE = ReplicatedReplacingMergeTree(version)');
+    });
+  });
+
+  describe('parseSchemaFile', () => {
+    it('should read back the objects of each section', () => {
+      const content = `-- Auto-generated schema file
+-- Generated on: 2024-01-01T12:00:00.000Z
+-- Environment: test
+-- Databases: app
+
+
+-- =====================================================
+-- TABLES
+-- =====================================================
+
+-- Table: app.users
+${usersTable};
+
+
+-- =====================================================
+-- MATERIALIZED VIEWS
+-- =====================================================
+
+-- Materialized View: app.users_mv
+CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users;
+
+
+-- =====================================================
+-- DICTIONARIES
+-- =====================================================
+
+-- Dictionary: app.users_dict
+CREATE DICTIONARY app.users_dict (id UInt64) PRIMARY KEY id SOURCE(CLICKHOUSE(TABLE 'users')) LAYOUT(FLAT()) LIFETIME(0);
+
+`;
+
+      expect(parseSchemaFile(content)).toEqual({
+        'table/app.users': usersTable,
+        'view/app.users_mv': 'CREATE MATERIALIZED VIEW app.users_mv TO app.users_copy AS SELECT * FROM app.users',
+        'dictionary/app.users_dict': "CREATE DICTIONARY app.users_dict (id UInt64) PRIMARY KEY id SOURCE(CLICKHOUSE(TABLE 'users')) LAYOUT(FLAT()) LIFETIME(0)",
+      });
+    });
+
+    it('should return no objects for a file without any', () => {
+      expect(parseSchemaFile('-- Auto-generated schema file\n-- Databases: \n\n')).toEqual({});
+    });
+  });
+
+  describe('formatSchemaObject', () => {
+    it('should write an object the way parseSchemaFile reads it back', () => {
+      const content = formatSchemaObject('table/app.users', `${usersTable};\n`);
+
+      expect(content).toBe(`-- Table: app.users\n${usersTable};\n`);
+      expect(parseSchemaFile(content)).toEqual({ 'table/app.users': usersTable });
+    });
+  });
+
+  describe('isInSchemaScope', () => {
+    it('should include every object by default', () => {
+      expect(isInSchemaScope('app', 'users')).toBe(true);
+      expect(isInSchemaScope('default', '__clicksuite_migrations', {})).toBe(true);
+    });
+
+    it('should match patterns without a dot against the database', () => {
+      const options = { include: ['app', 'analytics_*'] };
+
+      expect(isInSchemaScope('app', 'users', options)).toBe(true);
+      expect(isInSchemaScope('analytics_eu', 'events', options)).toBe(true);
+      expect(isInSchemaScope('other_team', 'users', options)).toBe(false);
+      expect(isInSchemaScope('application', 'users', options)).toBe(false);
+    });
+
+    it('should match patterns with a dot against the object name', () => {
+      const options = { include: ['app.*'], exclude: ['app.tmp_*', 'app.backup_?'] };
+
+      expect(isInSchemaScope('app', 'users', options)).toBe(true);
+      expect(isInSchemaScope('app', 'tmp_import', options)).toBe(false);
+      expect(isInSchemaScope('app', 'backup_1', options)).toBe(false);
+      expect(isInSchemaScope('app', 'backup_12', options)).toBe(true);
+      expect(isInSchemaScope('appx', 'users', options)).toBe(false);
+    });
+
+    it('should leave out clicksuite tracking tables with skipMigrationsTable', () => {
+      expect(isInSchemaScope('default', '__clicksuite_migrations', { skipMigrationsTable: true })).toBe(false);
+      expect(isInSchemaScope('meta', '__clicksuite_lock', { skipMigrationsTable: true })).toBe(false);
+      expect(isInSchemaScope('default', 'users', { skipMigrationsTable: true })).toBe(true);
+    });
+  });
+
+  describe('unifiedDiff', () => {
+    it('should render changed lines with surrounding context', () => {
+      const changed = usersTable.replace('`name` String', '`name` String,\n    `email` String');
+
+      expect(unifiedDiff(usersTable, changed, 'schema.sql', 'database')).toBe([
+        '--- schema.sql',
+        '+++ database',
+        '@@ -1,7 +1,8 @@',
+        ' CREATE TABLE app.users',
+        ' (',
+        '     `id` UInt64,',
+        '-    `name` String',
+        '+    `name` String,',
+        '+    `email` String',
+        ' )',
+        ' ENGINE = MergeTree',
+        ' ORDER BY id',
+      ].join('\n'));
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const from = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+      const to = ['A', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'J'].join('\n');
+
+      const hunkHeaders = unifiedDiff(from, to, 'a', 'b').split('\n').filter(line => line.startsWith('@@'));
+
+      expect(hunkHeaders).toEqual(['@@ -1,4 +1,4 @@', '@@ -7,4 +7,4 @@']);
+    });
+
+    it('should diff against an empty text for added objects', () => {
+      expect(unifiedDiff('', 'CREATE TABLE a', '/dev/null', 'database')).toBe('--- /dev/null\n+++ database\n@@ -0,0 +1,1 @@\n+CREATE TABLE a');
+    });
+
+    it('should return an empty string for equal texts', () => {
+      expect(unifiedDiff(usersTable, usersTable, 'a', 'b')).toBe('');
+    });
+  });
+
+  describe('diffSchemas', () => {
+    it('should report added, removed and changed objects', () => {
+      const differences = diffSchemas(
+        { 'table/app.users': usersTable, 'table/app.legacy': 'CREATE TABLE app.legacy (x UInt8) ENGINE = Memory' },
+        { 'table/app.users': usersTable.replace('MergeTree', 'ReplacingMergeTree'), 'view/app.hotfix_mv': 'CREATE MATERIALIZED VIEW app.hotfix_mv AS SELECT 1' },
+      );
+
+      expect(differences.map(({ type, name, change }) => ({ type, name, change }))).toEqual([
+        { type: 'table', name: 'app.legacy', change: 'removed' },
+        { type: 'table', name: 'app.users', change: 'changed' },
+        { type: 'view', name: 'app.hotfix_mv', change: 'added' },
+      ]);
+      expect(differences[0].diff).toContain('-CREATE TABLE app.legacy');
+      expect(differences[1].diff).toContain('-ENGINE = MergeTree\n+ENGINE = ReplacingMergeTree');
+      expect(differences[2].diff).toContain('+CREATE MATERIALIZED VIEW app.hotfix_mv AS SELECT 1');
+    });
+
+    it('should not report formatting-only differences', () => {
+      expect(diffSchemas({ 'table/app.users': `${usersTable};` }, { 'table/app.users': `${usersTable}\n` })).toEqual([]);
+    });
+  });
+
+  describe('orderSchemaObjects', () => {
+    it('should create tables before the views and dictionaries that use them', () => {
+      const order = orderSchemaObjects({
+        'view/app.a_mv': 'CREATE MATERIALIZED VIEW app.a_mv TO app.z_target AS SELECT * FROM app.z_source',
+        'dictionary/app.a_dict': "CREATE DICTIONARY app.a_dict (id UInt64) PRIMARY KEY id SOURCE(CLICKHOUSE(TABLE 'z_source')) LAYOUT(FLAT()) LIFETIME(0)",
+        'table/app.z_target': 'CREATE TABLE app.z_target (id UInt64) ENGINE = MergeTree ORDER BY id',
+        'table/app.z_source': 'CREATE TABLE app.z_source (id UInt64) ENGINE = MergeTree ORDER BY id',
+      });
+
+      expect(order).toEqual(['table/app.z_source', 'table/app.z_target', 'dictionary/app.a_dict', 'view/app.a_mv']);
+    });
+
+    it('should create dictionaries before the tables that read from them', () => {
+      const order = orderSchemaObjects({
+        'table/app.orders': "CREATE TABLE app.orders (user_id UInt64, user_name String DEFAULT dictGet('app.users_dict', 'name', user_id)) ENGINE = MergeTree ORDER BY user_id",
+        'table/app.users': 'CREATE TABLE app.users (id UInt64, name String) ENGINE = MergeTree ORDER BY id',
+        'dictionary/app.users_dict': "CREATE DICTIONARY app.users_dict (id UInt64, name String) PRIMARY KEY id SOURCE(CLICKHOUSE(TABLE 'users' DB 'app')) LAYOUT(FLAT()) LIFETIME(0)",
+      });
+
+      expect(order).toEqual(['table/app.users', 'dictionary/app.users_dict', 'table/app.orders']);
+    });
+
+    it('should create the local table of a Distributed table first', () => {
+      const order = orderSchemaObjects({
+        'table/app.a_events': "CREATE TABLE app.a_events (id UInt64) ENGINE = Distributed('main', 'app', 'z_events_local', rand())",
+        'table/app.z_events_local': 'CREATE TABLE app.z_events_local (id UInt64) ENGINE = MergeTree ORDER BY id',
+      });
+
+      expect(order).toEqual(['table/app.z_events_local', 'table/app.a_events']);
+    });
+
+    it('should not mistake a name for a longer name that starts with it', () => {
+      const order = orderSchemaObjects({
+        'table/app.users': 'CREATE TABLE app.users AS app.users_template',
+        'table/app.users_template': 'CREATE TABLE app.users_template (id UInt64) ENGINE = Memory',
+        'table/app.a': 'CREATE TABLE app.a (id UInt64) ENGINE = Memory COMMENT \'not app.users\'',
+      });
+
+      expect(order.indexOf('table/app.users_template')).toBeLessThan(order.indexOf('table/app.users'));
+    });
+  });
+
+  describe('toCreateIfNotExists', () => {
+    it('should add IF NOT EXISTS to CREATE statements', () => {
+      expect(toCreateIfNotExists('CREATE TABLE app.users (id UInt64) ENGINE = Memory')).toBe('CREATE TABLE IF NOT EXISTS app.users (id UInt64) ENGINE = Memory');
+      expect(toCreateIfNotExists('CREATE MATERIALIZED VIEW app.mv TO app.t AS SELECT 1')).toBe('CREATE MATERIALIZED VIEW IF NOT EXISTS app.mv TO app.t AS SELECT 1');
+      expect(toCreateIfNotExists('CREATE DICTIONARY app.d (id UInt64) PRIMARY KEY id')).toBe('CREATE DICTIONARY IF NOT EXISTS app.d (id UInt64) PRIMARY KEY id');
+    });
+
+    it('should leave statements that already have IF NOT EXISTS alone', () => {
+      expect(toCreateIfNotExists('CREATE TABLE IF NOT EXISTS app.users (id UInt64) ENGINE = Memory')).toBe('CREATE TABLE IF NOT EXISTS app.users (id UInt64) ENGINE = Memory');
+    });
+  });
+});
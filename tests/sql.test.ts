@@ -0,0 +1,307 @@
+import { addOnCluster, addOnClusterPlaceholder, getDdlTargets, getMutationTarget, isDdlWithoutOnCluster, parseSqlMigration, parseSqlMigrationPair, splitStatements, stripComments } from '../src/sql';
+
+describe('SQL statement splitter', () => {
+  describe('splitStatements', () => {
+    it('should split simple statements on semicolons', () => {
+      expect(splitStatements('CREATE TABLE a (x UInt8) ENGINE = Memory; DROP TABLE b;')).toEqual([
+        'CREATE TABLE a (x UInt8) ENGINE = Memory',
+        'DROP TABLE b',
+      ]);
+    });
+
+    it('should return a single statement without a trailing semicolon unchanged', () => {
+      expect(splitStatements('  SELECT 1  ')).toEqual(['SELECT 1']);
+    });
+
+    it('should drop empty statements', () => {
+      expect(splitStatements(';;  ;\n;')).toEqual([]);
+      expect(splitStatements('SELECT 1;; ; SELECT 2;')).toEqual(['SELECT 1', 'SELECT 2']);
+    });
+
+    describe('tricky statement corpus', () => {
+      const corpus: Array<[string, string, string[]]> = [
+        [
+          'semicolon in a single-quoted string',
+          "INSERT INTO t VALUES ('a;b'); SELECT 1",
+          ["INSERT INTO t VALUES ('a;b')", 'SELECT 1'],
+        ],
+        [
+          'backslash-escaped quote inside a string',
+          "INSERT INTO t VALUES ('it\\'s; fine'); SELECT 2",
+          ["INSERT INTO t VALUES ('it\\'s; fine')", 'SELECT 2'],
+        ],
+        [
+          'doubled quote inside a string',
+          "INSERT INTO t VALUES ('it''s; fine'); SELECT 3",
+          ["INSERT INTO t VALUES ('it''s; fine')", 'SELECT 3'],
+        ],
+        [
+          'escaped backslash before the closing quote',
+          "SELECT 'C:\\\\'; SELECT 4",
+          ["SELECT 'C:\\\\'", 'SELECT 4'],
+        ],
+        [
+          'semicolon in a backtick identifier',
+          'CREATE TABLE `odd;name` (x UInt8) ENGINE = Memory; SELECT 5',
+          ['CREATE TABLE `odd;name` (x UInt8) ENGINE = Memory', 'SELECT 5'],
+        ],
+        [
+          'semicolon in a double-quoted identifier',
+          'SELECT "col;umn" FROM t; SELECT 6',
+          ['SELECT "col;umn" FROM t', 'SELECT 6'],
+        ],
+        [
+          'semicolon in a line comment',
+          'SELECT 1 -- first; not a separator\nFROM t; SELECT 7',
+          ['SELECT 1 -- first; not a separator\nFROM t', 'SELECT 7'],
+        ],
+        [
+          'semicolon in a hash comment',
+          'SELECT 1 # note; still a comment\nFROM t; SELECT 8',
+          ['SELECT 1 # note; still a comment\nFROM t', 'SELECT 8'],
+        ],
+        [
+          'semicolon in a block comment',
+          'SELECT /* a; b */ 1; SELECT 9',
+          ['SELECT /* a; b */ 1', 'SELECT 9'],
+        ],
+        [
+          'nested block comments',
+          'SELECT /* outer /* inner; */ still; comment */ 1; SELECT 10',
+          ['SELECT /* outer /* inner; */ still; comment */ 1', 'SELECT 10'],
+        ],
+        [
+          'quote characters inside comments',
+          "SELECT 1 -- don't split here\n; SELECT 11",
+          ["SELECT 1 -- don't split here", 'SELECT 11'],
+        ],
+        [
+          'anonymous heredoc',
+          'SELECT $$a; \'b\'; c$$; SELECT 12',
+          ["SELECT $$a; 'b'; c$$", 'SELECT 12'],
+        ],
+        [
+          'tagged heredoc',
+          'SELECT $body$x; $$ y;$body$; SELECT 13',
+          ['SELECT $body$x; $$ y;$body$', 'SELECT 13'],
+        ],
+        [
+          'dictionary SOURCE definition',
+          "CREATE DICTIONARY d (id UInt64, v String) PRIMARY KEY id SOURCE(CLICKHOUSE(QUERY 'SELECT id, v FROM t; ')) LIFETIME(300) LAYOUT(FLAT()); SELECT 14",
+          [
+            "CREATE DICTIONARY d (id UInt64, v String) PRIMARY KEY id SOURCE(CLICKHOUSE(QUERY 'SELECT id, v FROM t; ')) LIFETIME(300) LAYOUT(FLAT())",
+            'SELECT 14',
+          ],
+        ],
+        [
+          'lambda body',
+          "SELECT arrayMap(x -> concat(x, ';'), ['a', 'b']); SELECT 15",
+          ["SELECT arrayMap(x -> concat(x, ';'), ['a', 'b'])", 'SELECT 15'],
+        ],
+        [
+          'trailing comment-only segment',
+          'CREATE TABLE a (x UInt8) ENGINE = Memory; -- done\n/* nothing else */',
+          ['CREATE TABLE a (x UInt8) ENGINE = Memory'],
+        ],
+        [
+          'leading comment kept with its statement',
+          '-- create the table\nCREATE TABLE a (x UInt8) ENGINE = Memory;\n\n-- and drop it\nDROP TABLE a;',
+          ['-- create the table\nCREATE TABLE a (x UInt8) ENGINE = Memory', '-- and drop it\nDROP TABLE a'],
+        ],
+        [
+          'dollar sign that is not a heredoc',
+          "SELECT '$' AS a, 1 AS $b; SELECT 16",
+          ["SELECT '$' AS a, 1 AS $b", 'SELECT 16'],
+        ],
+      ];
+
+      it.each(corpus)('should handle %s', (_description, sql, expected) => {
+        expect(splitStatements(sql)).toEqual(expected);
+      });
+    });
+
+    it('should keep the rest of the script in one statement when a string is unterminated', () => {
+      expect(splitStatements("SELECT 'abc; SELECT 2")).toEqual(["SELECT 'abc; SELECT 2"]);
+    });
+  });
+
+  describe('stripComments', () => {
+    it('should remove line and block comments', () => {
+      expect(stripComments('SELECT 1 -- one\n/* two */ + 2').replace(/\s+/g, ' ').trim()).toBe('SELECT 1 + 2');
+    });
+
+    it('should keep comment markers inside strings', () => {
+      expect(stripComments("SELECT '-- not a comment', '/* nor this */'")).toBe("SELECT '-- not a comment', '/* nor this */'");
+    });
+  });
+
+  describe('getMutationTarget', () => {
+    it('should find the table of statements that start a mutation', () => {
+      expect(getMutationTarget('ALTER TABLE analytics.events UPDATE country = upper(country) WHERE 1')).toEqual({ database: 'analytics', table: 'events' });
+      expect(getMutationTarget("alter table events on cluster '{cluster}' delete where ts < now()")).toEqual({ table: 'events' });
+      expect(getMutationTarget('ALTER TABLE `my db`.`events` MATERIALIZE COLUMN country')).toEqual({ database: 'my db', table: 'events' });
+      expect(getMutationTarget('-- backfill\nALTER TABLE IF EXISTS events ADD COLUMN c String, MATERIALIZE COLUMN c')).toEqual({ table: 'events' });
+      // MODIFY TTL starts a MATERIALIZE TTL mutation unless materialize_ttl_after_modify is off
+      expect(getMutationTarget('ALTER TABLE analytics.events MODIFY TTL ts + INTERVAL 30 DAY')).toEqual({ database: 'analytics', table: 'events' });
+    });
+
+    it('should ignore statements that start no mutation', () => {
+      expect(getMutationTarget('ALTER TABLE events ADD COLUMN country String')).toBeUndefined();
+      expect(getMutationTarget("ALTER TABLE events COMMENT COLUMN country 'UPDATE me'")).toBeUndefined();
+      expect(getMutationTarget('UPDATE events SET x = 1 WHERE 1')).toBeUndefined();
+      expect(getMutationTarget('CREATE TABLE events (x UInt8) ENGINE = Memory')).toBeUndefined();
+    });
+  });
+
+  describe('addOnCluster', () => {
+    it('should add ON CLUSTER after the name of the object a DDL statement works on', () => {
+      expect(addOnCluster('CREATE TABLE IF NOT EXISTS analytics.events (id UInt64) ENGINE = Memory', 'prod')).toBe('CREATE TABLE IF NOT EXISTS analytics.events ON CLUSTER prod (id UInt64) ENGINE = Memory');
+      expect(addOnCluster('create materialized view mv to events as select 1', 'prod')).toBe('create materialized view mv ON CLUSTER prod to events as select 1');
+      expect(addOnCluster('ALTER TABLE `events` ADD COLUMN country String', 'prod')).toBe('ALTER TABLE `events` ON CLUSTER prod ADD COLUMN country String');
+      expect(addOnCluster('DROP TABLE IF EXISTS events SYNC', 'prod')).toBe('DROP TABLE IF EXISTS events ON CLUSTER prod SYNC');
+      expect(addOnCluster('RENAME TABLE a TO b, c TO d', 'prod')).toBe('RENAME TABLE a TO b, c TO d ON CLUSTER prod');
+      expect(addOnCluster('TRUNCATE events', 'prod')).toBe('TRUNCATE events ON CLUSTER prod');
+      expect(addOnCluster('-- recreate\nCREATE DATABASE app', 'prod')).toBe('-- recreate\nCREATE DATABASE app ON CLUSTER prod');
+    });
+
+    it('should leave statements that are not DDL or already run ON CLUSTER unchanged', () => {
+      expect(addOnCluster("CREATE TABLE events ON CLUSTER '{cluster}' (id UInt64) ENGINE = Memory", 'prod')).toBe("CREATE TABLE events ON CLUSTER '{cluster}' (id UInt64) ENGINE = Memory");
+      expect(addOnCluster('CREATE TEMPORARY TABLE t (x UInt8)', 'prod')).toBe('CREATE TEMPORARY TABLE t (x UInt8)');
+      expect(addOnCluster('INSERT INTO events VALUES (1)', 'prod')).toBe('INSERT INTO events VALUES (1)');
+      expect(addOnCluster('CREATE TABLE events {on_cluster} (id UInt64) ENGINE = Memory', 'prod')).toBe('CREATE TABLE events {on_cluster} (id UInt64) ENGINE = Memory');
+    });
+  });
+
+  describe('addOnClusterPlaceholder', () => {
+    it('should add {on_cluster} after the name of the object a DDL statement works on', () => {
+      expect(addOnClusterPlaceholder('CREATE TABLE IF NOT EXISTS analytics.events (id UInt64) ENGINE = Memory')).toBe('CREATE TABLE IF NOT EXISTS analytics.events {on_cluster} (id UInt64) ENGINE = Memory');
+      expect(addOnClusterPlaceholder('CREATE MATERIALIZED VIEW IF NOT EXISTS app.mv TO app.events AS SELECT 1')).toBe('CREATE MATERIALIZED VIEW IF NOT EXISTS app.mv {on_cluster} TO app.events AS SELECT 1');
+    });
+
+    it('should leave statements that are not DDL or already run ON CLUSTER unchanged', () => {
+      expect(addOnClusterPlaceholder('CREATE TABLE events ON CLUSTER prod (id UInt64) ENGINE = Memory')).toBe('CREATE TABLE events ON CLUSTER prod (id UInt64) ENGINE = Memory');
+      expect(addOnClusterPlaceholder('CREATE TABLE events {on_cluster} (id UInt64) ENGINE = Memory')).toBe('CREATE TABLE events {on_cluster} (id UInt64) ENGINE = Memory');
+      expect(addOnClusterPlaceholder('INSERT INTO events VALUES (1)')).toBe('INSERT INTO events VALUES (1)');
+    });
+  });
+
+  describe('getDdlTargets', () => {
+    it('should find the objects DDL statements work on', () => {
+      expect(getDdlTargets('CREATE TABLE IF NOT EXISTS analytics.events (id UInt64) ENGINE = Memory')).toEqual([{ database: 'analytics', name: 'events' }]);
+      expect(getDdlTargets('ALTER TABLE `events` ON CLUSTER prod ADD COLUMN country String')).toEqual([{ name: 'events' }]);
+      expect(getDdlTargets('RENAME TABLE a.old TO a.new, b TO c')).toEqual([{ database: 'a', name: 'old' }, { database: 'a', name: 'new' }, { name: 'b' }, { name: 'c' }]);
+      expect(getDdlTargets('DROP DATABASE IF EXISTS analytics')).toEqual([{ database: 'analytics' }]);
+      expect(getDdlTargets('TRUNCATE analytics.events')).toEqual([{ database: 'analytics', name: 'events' }]);
+    });
+
+    it('should ignore functions and statements that are not DDL', () => {
+      expect(getDdlTargets('CREATE FUNCTION plus_one AS (x) -> x + 1')).toEqual([]);
+      expect(getDdlTargets('INSERT INTO events VALUES (1)')).toEqual([]);
+    });
+  });
+
+  describe('isDdlWithoutOnCluster', () => {
+    it('should tell DDL without ON CLUSTER apart', () => {
+      expect(isDdlWithoutOnCluster('ALTER TABLE events DELETE WHERE 1')).toBe(true);
+      expect(isDdlWithoutOnCluster('ALTER TABLE events ON CLUSTER prod DELETE WHERE 1')).toBe(false);
+      expect(isDdlWithoutOnCluster('SELECT 1')).toBe(false);
+    });
+  });
+
+  describe('parseSqlMigration', () => {
+    it('should split the file into up and down sections', () => {
+      const content = parseSqlMigration([
+        '-- Create the events table',
+        '-- +clicksuite Up',
+        'CREATE TABLE events (id UInt64) ENGINE = MergeTree ORDER BY id;',
+        '',
+        '-- +clicksuite Down',
+        'DROP TABLE events;',
+      ].join('\n'));
+
+      expect(content).toEqual({
+        upSQL: 'CREATE TABLE events (id UInt64) ENGINE = MergeTree ORDER BY id;',
+        downSQL: 'DROP TABLE events;',
+        settings: {},
+      });
+    });
+
+    it('should read header directives', () => {
+      const content = parseSqlMigration([
+        '-- +clicksuite table: events',
+        '-- +clicksuite database: analytics',
+        '-- +clicksuite settings: max_execution_time=300, mutations_sync=2',
+        '-- +clicksuite settings: insert_quorum=\'auto\'',
+        '-- +clicksuite environments: production, staging',
+        '-- +clicksuite Up',
+        'SELECT 1',
+      ].join('\n'));
+
+      expect(content).toMatchObject({
+        table: 'events',
+        database: 'analytics',
+        settings: { max_execution_time: 300, mutations_sync: 2, insert_quorum: 'auto' },
+        environments: ['production', 'staging'],
+        upSQL: 'SELECT 1',
+      });
+      expect(content.downSQL).toBeUndefined();
+    });
+
+    it('should accept markers in any case', () => {
+      const content = parseSqlMigration('--+clicksuite up\nSELECT 1\n--   +CLICKSUITE DOWN\nSELECT 2');
+
+      expect(content.upSQL).toBe('SELECT 1');
+      expect(content.downSQL).toBe('SELECT 2');
+    });
+
+    it('should require an up section marker', () => {
+      expect(() => parseSqlMigration('SELECT 1')).toThrow("Missing '-- +clicksuite Up' section marker");
+    });
+
+    it('should reject duplicate section markers', () => {
+      expect(() => parseSqlMigration('-- +clicksuite Up\nSELECT 1\n-- +clicksuite Up\nSELECT 2')).toThrow('Duplicate');
+    });
+
+    it('should read the wait_for_mutations directive', () => {
+      expect(parseSqlMigration('-- +clicksuite wait_for_mutations: false\n-- +clicksuite Up\nALTER TABLE t DELETE WHERE 1').waitForMutations).toBe(false);
+      expect(() => parseSqlMigration('-- +clicksuite wait_for_mutations: no\n-- +clicksuite Up\nSELECT 1')).toThrow("Invalid value 'no' for wait_for_mutations");
+    });
+
+    it('should reject unknown and malformed directives', () => {
+      expect(() => parseSqlMigration('-- +clicksuite owner: me\n-- +clicksuite Up\nSELECT 1')).toThrow("Unknown directive '-- +clicksuite owner'");
+      expect(() => parseSqlMigration('-- +clicksuite table\n-- +clicksuite Up\nSELECT 1')).toThrow('Invalid directive');
+      expect(() => parseSqlMigration('-- +clicksuite settings: max_threads\n-- +clicksuite Up\nSELECT 1')).toThrow("Invalid setting 'max_threads'");
+    });
+  });
+
+  describe('parseSqlMigrationPair', () => {
+    it('should use each file as a whole and strip directive lines', () => {
+      const content = parseSqlMigrationPair(
+        '-- +clicksuite table: events\nCREATE TABLE {table} (id UInt64) ENGINE = Memory;\n',
+        '-- +clicksuite environments: test\nDROP TABLE {table};\n'
+      );
+
+      expect(content).toEqual({
+        upSQL: 'CREATE TABLE {table} (id UInt64) ENGINE = Memory;',
+        downSQL: 'DROP TABLE {table};',
+        table: 'events',
+        environments: ['test'],
+        settings: {},
+      });
+    });
+
+    it('should prefer directives from the up file', () => {
+      const content = parseSqlMigrationPair('-- +clicksuite table: up_table\nSELECT 1', '-- +clicksuite table: down_table\nSELECT 2');
+
+      expect(content.table).toBe('up_table');
+    });
+
+    it('should allow a missing down file', () => {
+      expect(parseSqlMigrationPair('SELECT 1').downSQL).toBeUndefined();
+    });
+
+    it('should reject section markers', () => {
+      expect(() => parseSqlMigrationPair('-- +clicksuite Up\nSELECT 1')).toThrow('only allowed in single-file');
+    });
+  });
+});
@@ -111,7 +111,7 @@ describe('Types', () => {
     });
 
     it('should support all migration states', () => {
-      const states: Array<MigrationStatus['state']> = ['APPLIED', 'PENDING', 'INACTIVE'];
+      const states: Array<MigrationStatus['state']> = ['APPLIED', 'PENDING', 'INACTIVE', 'PARTIAL'];
       
       states.forEach(state => {
         const status: MigrationStatus = {
@@ -120,7 +120,7 @@ describe('Types', () => {
           filePath: '/test.yml',
           state
         };
-        expect(['APPLIED', 'PENDING', 'INACTIVE']).toContain(status.state);
+        expect(['APPLIED', 'PENDING', 'INACTIVE', 'PARTIAL']).toContain(status.state);
       });
     });
   });